@@ -4,11 +4,11 @@ import dts from "rollup-plugin-dts"
 import esbuild from "rollup-plugin-esbuild"
 import { nodeResolve } from "@rollup/plugin-node-resolve"
 
-const external = ["colorus-js"]
+const external = ["colorus-js", /^node:/]
 
 export default [
   {
-    input: ["src/index.ts"],
+    input: ["src/index.ts", "src/bin.ts"],
     plugins: [nodeResolve(), typescript(), reportDetails()],
     output: { dir: "build", format: "es", exports: "auto" },
     external,
@@ -26,6 +26,12 @@ export default [
     ],
     external,
   },
+  {
+    input: "build/bin.js",
+    plugins: [nodeResolve(), esbuild({ minify: true, target: "node20" }), reportDetails()],
+    output: { file: "dist/cli.mjs", format: "esm", banner: "#!/usr/bin/env node" },
+    external,
+  },
   {
     input: "build/src/index.d.ts",
     plugins: [dts(), reportDetails()],
@@ -0,0 +1,90 @@
+import type { ColorValue, Logger, TokenName } from "./index"
+
+/**
+ * Reference to another token of the theme, e.g. `"{brand.primary}"`.
+ *
+ * @template TKey - Tokens that can be referenced
+ */
+type TokenReference<TKey extends string = TokenName> = `{${TKey}}`
+
+/**
+ * Value accepted for a token: a literal color or a reference to another token.
+ *
+ * @template TKey - Tokens that can be referenced
+ *
+ * @example
+ * ```ts
+ * const colors: Record<"brand.primary" | "button.bg", TokenValue<"brand.primary" | "button.bg">> = {
+ *   "brand.primary": "#3366ff",
+ *   "button.bg": "{brand.primary}",
+ * }
+ * ```
+ */
+type TokenValue<TKey extends string = TokenName> = ColorValue | TokenReference<TKey>
+
+/**
+ * Result of resolving a token value through its aliases.
+ */
+type ResolvedToken = {
+  /** The literal color at the end of the alias chain */
+  value: ColorValue
+  /** The token directly referenced, when the value is an alias */
+  reference?: string
+}
+
+const referencePattern = /^\{\s*([^{}\s]+)\s*\}$/
+
+/**
+ * Extracts the referenced token from a value, if it is a reference.
+ *
+ * @example
+ * ```ts
+ * parseReference("{brand.primary}") // "brand.primary"
+ * parseReference("#3366ff") // undefined
+ * ```
+ */
+function parseReference(value: unknown): string | undefined {
+  return typeof value === "string" ? referencePattern.exec(value)?.[1] : undefined
+}
+
+/**
+ * Resolves the value of a token by following its chain of aliases down to a
+ * literal color. Unknown targets and circular references are reported
+ * through the logger, and nothing is returned.
+ *
+ * @param token - The token to resolve
+ * @param colors - Every known token value, literal or alias
+ * @param logger - Logger reporting broken references
+ * @returns The literal color and the directly referenced token
+ */
+function resolveReference(
+  token: string,
+  colors: Record<string, TokenValue<string> | undefined>,
+  logger: Logger,
+): ResolvedToken | undefined {
+  const visited = new Set([token])
+  const reference = parseReference(colors[token])
+  let value = colors[token]
+  let target = reference
+
+  while (target !== undefined) {
+    if (visited.has(target)) {
+      logger.error(`Token ${token} has a circular reference through ${target}.`)
+      return undefined
+    }
+
+    if (!colors[target]) {
+      logger.warn(`Token ${token} references unknown token ${target}. Skipping...`)
+      return undefined
+    }
+
+    visited.add(target)
+    value = colors[target]
+    target = parseReference(value)
+  }
+
+  return value ? { value: value as ColorValue, reference } : undefined
+}
+
+export { parseReference, resolveReference }
+export type { ResolvedToken, TokenReference, TokenValue }
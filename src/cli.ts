@@ -0,0 +1,364 @@
+import { watch } from "node:fs"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { basename, dirname, extname, resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import type { Logger, ThemeManagerOptions } from "./index"
+import { formatDiff, ThemeManager } from "./index"
+
+/**
+ * Build settings of a theme configuration, read from its `build` key and
+ * overridden by the command-line flags.
+ *
+ * @example
+ * ```json
+ * {
+ *   "colors": { "button.bg": "#3366ff" },
+ *   "output": { "prefix": "--", "divider": "-" },
+ *   "build": { "formats": ["css", "scss"], "outDir": "dist/theme" }
+ * }
+ * ```
+ */
+type CliBuildOptions = {
+  /** Formats to write, any registered exporter name (default ["css"]) */
+  formats?: string[]
+  /** Directory receiving the files (default ".") */
+  outDir?: string
+  /** Base name of the written files (default "theme") */
+  name?: string
+  /** JSON theme validated with `parseFromJson` and exported on top of the configured colors */
+  input?: string
+}
+
+/**
+ * A theme configuration: ThemeManager options, along with the build settings.
+ */
+type CliConfig = ThemeManagerOptions & { build?: CliBuildOptions }
+
+/**
+ * Streams and working directory of a CLI run, replaceable in tests.
+ */
+type CliIO = {
+  /** Directory the paths are resolved from */
+  cwd: string
+  /** Writes progress messages */
+  stdout: (message: string) => void
+  /** Writes diagnostics */
+  stderr: (message: string) => void
+  /** Stops watching when aborted */
+  signal?: AbortSignal
+}
+
+const usage = `Usage: themix <config> [options]
+       themix diff <before> <after> [options]
+
+Builds a theme from a JSON config or a JS/TS module exporting ThemeManager options,
+or compares two configs or generated JSON schemas. TS modules are imported through tsx
+or jiti when installed, natively on Node 22.18+ otherwise.
+
+Options:
+  -f, --format <formats>  Comma separated formats, e.g. css,scss,json,ts (default css)
+  -o, --out-dir <dir>     Directory receiving the files (default .)
+  -n, --name <name>       Base name of the written files (default theme)
+  -i, --input <file>      JSON theme validated and exported on top of the config colors
+      --strict            Fail on any warning, for configs exporting options
+  -w, --watch             Rebuild when the config or input changes
+  -h, --help              Show this message
+
+Diff options:
+  -m, --mode <mode>       Mode of the compared configs (default base)
+      --threshold <delta> CIEDE2000 difference below which a change is cosmetic (default 1)`
+
+/**
+ * Imports a module, or nothing when it is not installed.
+ */
+const importOptional = (specifier: string): Promise<any> => import(specifier).catch(() => undefined)
+
+/**
+ * Imports a TS module through tsx or jiti when either is installed, or
+ * natively, Node stripping types since 22.18.
+ */
+async function importTypeScript(path: string, url: URL, fresh: boolean) {
+  const tsx = await importOptional("tsx/esm/api")
+  if (tsx) {
+    return tsx.tsImport(url.href, import.meta.url)
+  }
+  const jiti = await importOptional("jiti")
+  if (jiti) {
+    return jiti.createJiti(import.meta.url, { moduleCache: !fresh }).import(path)
+  }
+  return import(url.href)
+}
+
+/**
+ * Loads the ThemeManager options of a configuration file: parsed JSON, or the
+ * default (or `theme`) export of a JS/TS module. TS modules are imported
+ * through tsx or jiti when installed.
+ *
+ * @param path - Absolute path of the configuration
+ * @param fresh - Bypass the module cache, for rebuilds. Natively imported modules are imported again under a new URL:
+ * their previous versions stay in memory, and the modules they import are not reloaded
+ * @returns The options, or a ThemeManager exported by the module
+ * @throws When the file cannot be read or imported, or exports no object
+ */
+async function loadConfig(path: string, fresh = false): Promise<Record<string, any>> {
+  if (extname(path) === ".json") {
+    try {
+      return JSON.parse(await readFile(path, "utf8"))
+    } catch (error) {
+      throw new Error(`Unable to read ${path}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const url = pathToFileURL(path)
+  if (fresh) url.searchParams.set("t", String(Date.now()))
+  let config: unknown
+  try {
+    const module = /\.[mc]?ts$/.test(path) ? await importTypeScript(path, url, fresh) : await import(url.href)
+    config = module.default ?? module.theme
+  } catch (error) {
+    const hint = /\.[mc]?ts$/.test(path) ? " TS configs need tsx or jiti installed, or Node 22.18+." : ""
+    throw new Error(`Unable to import ${path}: ${error instanceof Error ? error.message : error}${hint}`)
+  }
+  if (!config || typeof config !== "object") {
+    throw new Error(`${path} exports no ThemeManager options (expected a default or \`theme\` export).`)
+  }
+  return config as Record<string, any>
+}
+
+/**
+ * Creates the theme manager of a configuration.
+ */
+const createTheme = (options: ThemeManagerOptions) => new ThemeManager(options)
+
+/**
+ * Whether a loaded config is a theme manager rather than its options. Duck
+ * typed, as the config may import another copy of the library.
+ */
+const isThemeManager = (config: Record<string, any>): config is ReturnType<typeof createTheme> =>
+  typeof config.export === "function" && typeof config.parseFromJson === "function"
+
+/**
+ * Builds the theme once: loads the config, validates the input theme and
+ * writes every format. Warnings are printed, and fail the build in strict
+ * mode; validation issues always fail it. Informational messages, such as
+ * contrast corrections, never fail it. Exported theme managers report
+ * through their own logger, so `--strict` is rejected for them.
+ *
+ * @returns The exit code: 0 on success, 1 on failed builds, 2 when the flags do not apply to the config
+ */
+async function build(
+  configPath: string,
+  flags: CliBuildOptions & { strict?: boolean },
+  io: CliIO,
+  fresh: boolean,
+): Promise<number> {
+  // Exporting several formats reports the same problems once per format
+  const diagnostics = new Set<string>()
+  const logger: Logger = {
+    warn: (message) => diagnostics.add(`warning: ${message}`),
+    error: (message) => diagnostics.add(`error: ${message}`),
+    info: (message) => diagnostics.add(`info: ${message}`),
+  }
+
+  try {
+    const config = await loadConfig(configPath, fresh)
+    if (isThemeManager(config) && flags.strict) {
+      io.stderr(
+        `error: --strict only applies to configs exporting ThemeManager options, pass \`strict: true\` to the exported ThemeManager instead.\n\n${usage}`,
+      )
+      return 2
+    }
+    const { build: settings = {}, ...options } = isThemeManager(config) ? { colors: {} } : (config as CliConfig)
+    const { formats = ["css"], outDir = ".", name = "theme", input } = { ...settings, ...flags }
+    const strict = flags.strict ?? options.strict
+    const theme = isThemeManager(config) ? config : createTheme({ logger, ...options, strict })
+
+    let colors: Record<string, any> | undefined
+    let valid = true
+    if (input) {
+      const result = theme.parseFromJson(await readFile(resolve(io.cwd, input), "utf8"))
+      result.issues.forEach(({ path, message }) =>
+        diagnostics.add(`error: ${input}${path.length ? ` > ${path.join(" > ")}` : ""}: ${message}`),
+      )
+      colors = result.colors
+      valid = result.ok
+    } else {
+      theme.generateTheme()
+    }
+
+    const files = formats.map((format) => {
+      const exporter = theme.getExporter(format)
+      if (!exporter) throw new Error(`Unknown format ${format}.`)
+      // Stylesheets carry every mode, the other formats the base colors
+      const contents = format === "css" && !colors ? theme.modesToCSS() : theme.export(format, { colors })
+      return { path: resolve(io.cwd, outDir, `${name}.${exporter.extension}`), contents }
+    })
+
+    // Warnings not escalated by the theme, e.g. from its lint rules, still fail strict builds
+    const failures = strict ? ["error:", "warning:"] : ["error:"]
+    const failed = !valid || [...diagnostics].some((message) => failures.some((level) => message.startsWith(level)))
+    diagnostics.forEach(io.stderr)
+    if (failed) return 1
+
+    await mkdir(resolve(io.cwd, outDir), { recursive: true })
+    for (const file of files) {
+      await writeFile(file.path, file.contents)
+      io.stdout(`wrote ${file.path}`)
+    }
+    return 0
+  } catch (error) {
+    diagnostics.forEach(io.stderr)
+    io.stderr(`error: ${error instanceof Error ? error.message.replace("[Theme-Manager]: ", "").trim() : error}`)
+    return 1
+  }
+}
+
+/**
+ * Compares two themes, each a config or a generated JSON schema, and prints
+ * every difference.
+ *
+ * @returns Whether both themes loaded
+ */
+async function diff(paths: string[], options: { mode?: string; threshold?: number }, io: CliIO) {
+  const diagnostics = new Set<string>()
+  const logger: Logger = {
+    warn: (message) => diagnostics.add(`warning: ${message}`),
+    error: (message) => diagnostics.add(`error: ${message}`),
+  }
+
+  try {
+    // Configs declare their colors, generated schemas are flat
+    const [before, after] = await Promise.all(
+      paths.map(async (path) => {
+        const config = await loadConfig(resolve(io.cwd, path))
+        if (isThemeManager(config) || typeof config?.colors !== "object") return config
+        const { build: _, ...options } = config as CliConfig
+        return createTheme({ ...options, logger })
+      }),
+    )
+    // Modules may export managers of another copy of the library, compared by their own class
+    const manager = [before, after].find(isThemeManager)
+    const Manager = (manager?.constructor ?? ThemeManager) as typeof ThemeManager
+    const result = Manager.diff(before, after, options)
+    diagnostics.forEach(io.stderr)
+    io.stdout(formatDiff(result))
+    return true
+  } catch (error) {
+    diagnostics.forEach(io.stderr)
+    io.stderr(`error: ${error instanceof Error ? error.message.replace("[Theme-Manager]: ", "").trim() : error}`)
+    return false
+  }
+}
+
+/**
+ * Runs the `themix` command line.
+ *
+ * @param args - Arguments, without the node executable and script
+ * @param io - Working directory and output streams
+ * @returns The exit code: 0 on success, 1 on failed builds, 2 on usage errors. In watch mode, the code of the last build
+ *
+ * @example
+ * ```ts
+ * process.exitCode = await run(["theme.config.json", "--format", "css,scss", "--out-dir", "dist"])
+ * process.exitCode = await run(["diff", "released/theme.json", "dist/theme.json"])
+ * ```
+ */
+async function run(args: string[], io: CliIO = defaultIO()): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f" },
+        "out-dir": { type: "string", short: "o" },
+        name: { type: "string", short: "n" },
+        input: { type: "string", short: "i" },
+        strict: { type: "boolean" },
+        watch: { type: "boolean", short: "w" },
+        help: { type: "boolean", short: "h" },
+        mode: { type: "string", short: "m" },
+        threshold: { type: "string" },
+      },
+    })
+  } catch (error) {
+    io.stderr(`error: ${error instanceof Error ? error.message : error}\n\n${usage}`)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  if (!values.help && positionals[0] === "diff" && positionals.length === 3) {
+    const threshold = values.threshold === undefined ? undefined : Number(values.threshold)
+    if (threshold !== undefined && !(threshold >= 0)) {
+      io.stderr(`error: Invalid threshold ${values.threshold}.\n\n${usage}`)
+      return 2
+    }
+    return (await diff(positionals.slice(1), { mode: values.mode, threshold }, io)) ? 0 : 1
+  }
+
+  if (values.help || positionals.length !== 1) {
+    ;(values.help ? io.stdout : io.stderr)(usage)
+    return values.help ? 0 : 2
+  }
+
+  const configPath = resolve(io.cwd, positionals[0])
+  const flags = {
+    ...(values.format && { formats: values.format.split(",").map((format) => format.trim()) }),
+    ...(values["out-dir"] && { outDir: values["out-dir"] }),
+    ...(values.name && { name: values.name }),
+    ...(values.input && { input: values.input }),
+    ...(values.strict && { strict: true }),
+  }
+
+  let code = await build(configPath, flags, io, false)
+  if (!values.watch || code === 2) {
+    return code
+  }
+
+  // Rebuild on changes until aborted, debouncing bursts of file events
+  const watched = [configPath, ...(flags.input ? [resolve(io.cwd, flags.input)] : [])]
+  // Editors saving by rename replace the watched files, their directories keep being watched
+  const directories = new Map<string, Set<string>>()
+  for (const path of watched) {
+    directories.set(dirname(path), (directories.get(dirname(path)) ?? new Set()).add(basename(path)))
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined
+  // Rebuilds run one after another, so the files of the last change are written last
+  let rebuilding = Promise.resolve()
+  const rebuild = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      rebuilding = rebuilding.then(async () => {
+        io.stdout("rebuilding...")
+        code = await build(configPath, flags, io, true)
+      })
+    }, 50)
+  }
+  const watchers = [...directories].map(([directory, names]) =>
+    watch(directory, (_, file) => {
+      if (file && names.has(file)) rebuild()
+    }),
+  )
+  io.stdout(`watching ${watched.join(", ")}`)
+
+  await new Promise<void>((done) => {
+    if (io.signal?.aborted) return done()
+    io.signal?.addEventListener("abort", () => done(), { once: true })
+  })
+  clearTimeout(timer)
+  watchers.forEach((watcher) => watcher.close())
+  await rebuilding
+  return code
+}
+
+function defaultIO(): CliIO {
+  return {
+    cwd: process.cwd(),
+    stdout: (message) => console.log(message),
+    stderr: (message) => console.error(message),
+  }
+}
+
+export { loadConfig, run }
+export type { CliBuildOptions, CliConfig, CliIO }
@@ -0,0 +1,618 @@
+import type { Colors } from "colorus-js"
+
+/**
+ * Output syntaxes supported by the built-in color formatter. `hex`, `rgb` and
+ * `hsl` are limited to sRGB, the CSS Color 4 syntaxes reach wider gamuts.
+ */
+type ColorFormat = "hex" | "rgb" | "hsl" | "oklch" | "oklab" | "lab" | "lch" | "p3"
+
+/**
+ * RGB color spaces colors can be mapped into.
+ */
+type Gamut = "srgb" | "p3"
+
+/**
+ * Formats limited to the sRGB gamut.
+ */
+const srgbFormats: readonly ColorFormat[] = ["hex", "rgb", "hsl"]
+
+/**
+ * Minimal RGB(A) shape shared by the color math helpers.
+ * Channels are in the 0-255 range, alpha in the 0-1 range.
+ */
+type RgbColor = Pick<Colors.Rgb, "r" | "g" | "b"> & { a?: number }
+
+/**
+ * Color in the perceptual OKLab space. Lightness is in the 0-1 range.
+ */
+type OklabColor = { l: number; a: number; b: number; alpha?: number }
+
+/**
+ * Color in the cylindrical form of OKLab. Lightness is in the 0-1 range,
+ * chroma usually below 0.4 and hue in degrees.
+ */
+type OklchColor = { l: number; c: number; h: number; alpha?: number }
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value))
+
+const round = (value: number, digits = 0) => {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Rounds the channels of an RGB color to integers, keeping its alpha.
+ */
+const roundRgb = ({ r, g, b, a }: RgbColor): RgbColor => {
+  const rounded = { r: Math.round(r), g: Math.round(g), b: Math.round(b) }
+  return a === undefined ? rounded : { ...rounded, a }
+}
+
+const toHexPair = (value: number) =>
+  Math.round(clamp(value, 0, 255))
+    .toString(16)
+    .padStart(2, "0")
+
+/**
+ * Converts an RGB color to its HSL representation.
+ * Hue is returned in degrees, saturation and lightness in percent.
+ */
+function rgbToHsl({ r, g, b }: RgbColor) {
+  const rn = r / 255
+  const gn = g / 255
+  const bn = b / 255
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  const d = max - min
+
+  if (d === 0) {
+    return { h: 0, s: 0, l: l * 100 }
+  }
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === rn) h = ((gn - bn) / d) % 6
+  else if (max === gn) h = (bn - rn) / d + 2
+  else h = (rn - gn) / d + 4
+
+  return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 }
+}
+
+/**
+ * Serializes an RGB color to a CSS color string in the requested syntax.
+ * The alpha channel is only emitted when the color is translucent.
+ *
+ * @example
+ * ```ts
+ * formatColor({ r: 51, g: 102, b: 255 }, "hex") // "#3366ff"
+ * formatColor({ r: 51, g: 102, b: 255, a: 0.5 }, "rgb") // "rgba(51, 102, 255, 0.5)"
+ * ```
+ */
+function formatColor(color: RgbColor, format: ColorFormat = "hex"): string {
+  const alpha = color.a === undefined ? 1 : round(clamp(color.a), 3)
+
+  switch (format) {
+    case "rgb": {
+      const channels = [color.r, color.g, color.b].map((c) => Math.round(clamp(c, 0, 255))).join(", ")
+      return alpha < 1 ? `rgba(${channels}, ${alpha})` : `rgb(${channels})`
+    }
+    case "hsl": {
+      const { h, s, l } = rgbToHsl(color)
+      const channels = `${round(h, 1)}, ${round(s, 1)}%, ${round(l, 1)}%`
+      return alpha < 1 ? `hsla(${channels}, ${alpha})` : `hsl(${channels})`
+    }
+    case "oklch":
+    case "oklab":
+    case "lab":
+    case "lch":
+    case "p3":
+      return formatOklab(rgbToOklab(color), format)
+    default: {
+      const hex = `#${toHexPair(color.r)}${toHexPair(color.g)}${toHexPair(color.b)}`
+      return alpha < 1 ? `${hex}${toHexPair(alpha * 255)}` : hex
+    }
+  }
+}
+
+/**
+ * Converts an 8-bit sRGB channel to linear light.
+ */
+const toLinear = (channel: number) => {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+/**
+ * Computes the WCAG 2.x relative luminance of a color, between 0 and 1.
+ */
+function relativeLuminance({ r, g, b }: RgbColor): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b)
+}
+
+/**
+ * Computes the WCAG 2.x contrast ratio between two colors, from 1 to 21.
+ * The order of the colors does not matter.
+ *
+ * @example
+ * ```ts
+ * contrastRatio({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }) // 21
+ * ```
+ */
+function contrastRatio(a: RgbColor, b: RgbColor): number {
+  const la = relativeLuminance(a)
+  const lb = relativeLuminance(b)
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+}
+
+/**
+ * Composites a color over another with the source-over operator, in sRGB as
+ * browsers do. The result is opaque unless both colors are translucent.
+ *
+ * @example
+ * ```ts
+ * compositeOver({ r: 0, g: 0, b: 0, a: 0.5 }, { r: 255, g: 255, b: 255 }) // { r: 127.5, g: 127.5, b: 127.5 }
+ * ```
+ */
+function compositeOver(top: RgbColor, bottom: RgbColor): RgbColor {
+  const topAlpha = top.a ?? 1
+  const bottomAlpha = (bottom.a ?? 1) * (1 - topAlpha)
+  const alpha = topAlpha + bottomAlpha
+  if (alpha === 0) {
+    return { r: 0, g: 0, b: 0, a: 0 }
+  }
+
+  const mix = (a: number, b: number) => (a * topAlpha + b * bottomAlpha) / alpha
+  const color = { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b) }
+  return alpha < 1 ? { ...color, a: alpha } : color
+}
+
+/**
+ * Screen luminance estimate used by APCA, with its soft clamp for near blacks.
+ */
+const apcaLuminance = ({ r, g, b }: RgbColor) => {
+  const y = 0.2126729 * (r / 255) ** 2.4 + 0.7151522 * (g / 255) ** 2.4 + 0.072175 * (b / 255) ** 2.4
+  return y > 0.022 ? y : y + (0.022 - y) ** 1.414
+}
+
+/**
+ * Computes the APCA (0.0.98G-4g) lightness contrast `Lc` of a text color
+ * over a background color. Positive values are dark text on a light
+ * background, negative values light text on a dark background.
+ *
+ * @example
+ * ```ts
+ * apcaContrast({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }) // ~106
+ * ```
+ */
+function apcaContrast(text: RgbColor, background: RgbColor): number {
+  const yText = apcaLuminance(text)
+  const yBackground = apcaLuminance(background)
+
+  if (Math.abs(yBackground - yText) < 0.0005) {
+    return 0
+  }
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100
+  }
+
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100
+}
+
+/**
+ * Converts a linear light channel back to an 8-bit sRGB channel.
+ */
+const fromLinear = (channel: number) =>
+  255 * (channel <= 0.0031308 ? 12.92 * channel : 1.055 * channel ** (1 / 2.4) - 0.055)
+
+/**
+ * Converts an sRGB color to OKLab.
+ */
+function rgbToOklab(color: RgbColor): OklabColor {
+  return linearRgbToOklab([toLinear(color.r), toLinear(color.g), toLinear(color.b)], color.a)
+}
+
+/**
+ * Converts linear sRGB channels, possibly out of the 0-1 range, to OKLab.
+ */
+function linearRgbToOklab([r, g, b]: number[], alpha?: number): OklabColor {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    alpha,
+  }
+}
+
+/**
+ * Converts an OKLab color to linear sRGB channels, which may fall outside
+ * the 0-1 range for colors out of the sRGB gamut.
+ */
+function oklabToLinearRgb({ l, a, b }: OklabColor): [number, number, number] {
+  const lc = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const mc = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const sc = (l - 0.0894841775 * a - 1.291485548 * b) ** 3
+
+  return [
+    4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc,
+    -1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc,
+    -0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc,
+  ]
+}
+
+const linearInGamut = (channels: number[], epsilon = 1e-4) =>
+  channels.every((channel) => channel >= -epsilon && channel <= 1 + epsilon)
+
+/**
+ * Converts an OKLab color to sRGB, clipping channels that fall out of gamut.
+ */
+function oklabToRgb(color: OklabColor): RgbColor {
+  const [r, g, b] = oklabToLinearRgb(color).map((channel) => clamp(fromLinear(channel), 0, 255))
+  return color.alpha === undefined ? { r, g, b } : { r, g, b, a: color.alpha }
+}
+
+/**
+ * Converts an sRGB color to OKLCH.
+ */
+function rgbToOklch(color: RgbColor): OklchColor {
+  return oklabToOklch(rgbToOklab(color))
+}
+
+/**
+ * Converts an OKLab color to its cylindrical OKLCH form.
+ */
+function oklabToOklch({ l, a, b, alpha }: OklabColor): OklchColor {
+  const c = Math.sqrt(a * a + b * b)
+  // Achromatic colors have no meaningful hue, drop the rounding noise
+  if (c < 1e-4) {
+    return { l, c: 0, h: 0, alpha }
+  }
+  return { l, c, h: ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360, alpha }
+}
+
+const oklchToOklab = ({ l, c, h, alpha }: OklchColor): OklabColor => {
+  const radians = (h * Math.PI) / 180
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians), alpha }
+}
+
+/**
+ * Converts an OKLCH color to sRGB. Out of gamut colors are mapped by
+ * reducing their chroma, preserving lightness and hue.
+ */
+function oklchToRgb(color: OklchColor): RgbColor {
+  const l = clamp(color.l)
+  // Black and white have no chroma left in gamut
+  if (l === 0 || l === 1) {
+    return oklabToRgb({ l, a: 0, b: 0, alpha: color.alpha })
+  }
+
+  return oklabToRgb(oklchToOklab(reduceChroma({ ...color, l }, "srgb")))
+}
+
+/**
+ * Reduces the chroma of an OKLCH color until it fits in the gamut,
+ * preserving lightness and hue.
+ */
+function reduceChroma(color: OklchColor, gamut: Gamut): OklchColor {
+  if (linearInGamut(oklabToLinear(oklchToOklab(color), gamut))) {
+    return color
+  }
+
+  let low = 0
+  let high = color.c
+  while (high - low > 1e-4) {
+    const c = (low + high) / 2
+    if (linearInGamut(oklabToLinear(oklchToOklab({ ...color, c }), gamut))) low = c
+    else high = c
+  }
+
+  return { ...color, c: low }
+}
+
+type Matrix = readonly [readonly number[], readonly number[], readonly number[]]
+
+const multiply = (matrix: Matrix, [x, y, z]: number[]) => matrix.map(([a, b, c]) => a * x + b * y + c * z)
+
+const linearSrgbToXyz: Matrix = [
+  [0.4123907992659595, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151036, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559185, 0.11919477979462598, 0.9505321522496606],
+]
+
+const xyzToLinearSrgb: Matrix = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+]
+
+const linearP3ToXyz: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+]
+
+const xyzToLinearP3: Matrix = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+]
+
+// Bradford chromatic adaptation between the D65 (sRGB, P3, OKLab) and D50 (CIELAB) white points
+const d65ToD50: Matrix = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+]
+
+const d50ToD65: Matrix = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+]
+
+const d50White = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585]
+const labEpsilon = 216 / 24389
+const labKappa = 24389 / 27
+
+/**
+ * Converts an OKLab color to CIELAB (D50), as used by the CSS `lab()` syntax.
+ */
+function oklabToLab(color: OklabColor): OklabColor {
+  const xyz = multiply(d65ToD50, multiply(linearSrgbToXyz, oklabToLinearRgb(color)))
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const t = value / d50White[i]
+    return t > labEpsilon ? Math.cbrt(t) : (labKappa * t + 16) / 116
+  })
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz), alpha: color.alpha }
+}
+
+/**
+ * Converts a CIELAB (D50) color to OKLab.
+ */
+function labToOklab({ l, a, b, alpha }: OklabColor): OklabColor {
+  const fy = (l + 16) / 116
+  const fx = a / 500 + fy
+  const fz = fy - b / 200
+  const xyz = [
+    fx ** 3 > labEpsilon ? fx ** 3 : (116 * fx - 16) / labKappa,
+    l > labKappa * labEpsilon ? fy ** 3 : l / labKappa,
+    fz ** 3 > labEpsilon ? fz ** 3 : (116 * fz - 16) / labKappa,
+  ].map((value, i) => value * d50White[i])
+  return linearRgbToOklab(multiply(xyzToLinearSrgb, multiply(d50ToD65, xyz)), alpha)
+}
+
+/**
+ * Computes the CIEDE2000 color difference of two colors, in CIELAB. A
+ * difference around 1 is commonly taken as just noticeable.
+ *
+ * @example
+ * ```ts
+ * deltaE2000({ r: 51, g: 102, b: 255 }, { r: 51, g: 102, b: 255 }) // 0
+ * deltaE2000({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }) // 100
+ * ```
+ */
+function deltaE2000(first: RgbColor, second: RgbColor): number {
+  return labDeltaE2000(oklabToLab(rgbToOklab(first)), oklabToLab(rgbToOklab(second)))
+}
+
+/**
+ * Computes the CIEDE2000 color difference of two CIELAB colors.
+ */
+function labDeltaE2000(lab1: OklabColor, lab2: OklabColor): number {
+  const toRadians = Math.PI / 180
+  const chroma = ({ a, b }: OklabColor) => Math.hypot(a, b)
+  const meanChroma7 = ((chroma(lab1) + chroma(lab2)) / 2) ** 7
+  const g = 0.5 * (1 - Math.sqrt(meanChroma7 / (meanChroma7 + 25 ** 7)))
+
+  // Lab with the a axis rescaled, in polar coordinates
+  const [p1, p2] = [lab1, lab2].map(({ l, a, b }) => {
+    const c = Math.hypot(a * (1 + g), b)
+    const h = c === 0 ? 0 : (Math.atan2(b, a * (1 + g)) / toRadians + 360) % 360
+    return { l, c, h }
+  })
+
+  const deltaL = p2.l - p1.l
+  const deltaC = p2.c - p1.c
+  let deltaH = p1.c * p2.c === 0 ? 0 : p2.h - p1.h
+  if (deltaH > 180) deltaH -= 360
+  else if (deltaH < -180) deltaH += 360
+  const deltaHue = 2 * Math.sqrt(p1.c * p2.c) * Math.sin((deltaH / 2) * toRadians)
+
+  const meanL = (p1.l + p2.l) / 2
+  const meanC = (p1.c + p2.c) / 2
+  let meanH = p1.h + p2.h
+  if (p1.c * p2.c !== 0) {
+    meanH = Math.abs(p1.h - p2.h) > 180 ? (meanH + (meanH < 360 ? 360 : -360)) / 2 : meanH / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((meanH - 30) * toRadians) +
+    0.24 * Math.cos(2 * meanH * toRadians) +
+    0.32 * Math.cos((3 * meanH + 6) * toRadians) -
+    0.2 * Math.cos((4 * meanH - 63) * toRadians)
+  const weightL = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2)
+  const weightC = 1 + 0.045 * meanC
+  const weightH = 1 + 0.015 * meanC * t
+  const rotation =
+    -2 *
+    Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7)) *
+    Math.sin(60 * Math.exp(-(((meanH - 275) / 25) ** 2)) * toRadians)
+
+  const dl = deltaL / weightL
+  const dc = deltaC / weightC
+  const dh = deltaHue / weightH
+  return Math.sqrt(dl ** 2 + dc ** 2 + dh ** 2 + rotation * dc * dh)
+}
+
+/**
+ * Converts an OKLab color to linear channels of the gamut, which may fall
+ * outside the 0-1 range for colors out of that gamut.
+ */
+function oklabToLinear(color: OklabColor, gamut: Gamut): number[] {
+  const linear = oklabToLinearRgb(color)
+  return gamut === "srgb" ? linear : multiply(xyzToLinearP3, multiply(linearSrgbToXyz, linear))
+}
+
+/**
+ * Checks whether an OKLab color can be displayed in the gamut.
+ *
+ * @example
+ * ```ts
+ * inGamut(parseCssColor("color(display-p3 1 0 0)")!, "srgb") // false
+ * inGamut(parseCssColor("color(display-p3 1 0 0)")!, "p3") // true
+ * ```
+ */
+function inGamut(color: OklabColor, gamut: Gamut = "srgb"): boolean {
+  // Tolerate half an 8-bit step, lost anyway when the color is serialized
+  return oklabToLinear(color, gamut).every((channel) => Math.abs(fromLinear(channel) - 127.5) <= 128)
+}
+
+/**
+ * Reference values of 100% for the channels of each syntax, alpha excluded.
+ */
+const percentReferences: Record<string, number[]> = {
+  oklch: [1, 0.4, 1],
+  oklab: [1, 0.4, 0.4],
+  lab: [100, 125, 125],
+  lch: [100, 150, 1],
+  color: [1, 1, 1],
+}
+
+const cssColorPattern = /^(oklch|oklab|lab|lch|color)\(\s*([^()]+?)\s*\)$/i
+
+/**
+ * Parses a CSS Color 4 color (`oklch()`, `oklab()`, `lab()`, `lch()` and
+ * `color()` in the `srgb` or `display-p3` spaces) into OKLab, without
+ * clipping it to any gamut. Other syntaxes are not recognized.
+ *
+ * @example
+ * ```ts
+ * parseCssColor("oklch(62.8% 0.258 29.23 / 0.5)") // { l: 0.628, a: 0.225, b: 0.126, alpha: 0.5 }
+ * parseCssColor("#ff0000") // undefined
+ * ```
+ */
+function parseCssColor(value: string): OklabColor | undefined {
+  const match = cssColorPattern.exec(value.trim())
+  if (!match) {
+    return undefined
+  }
+
+  const syntax = match[1].toLowerCase()
+  const [body, alphaPart, ...rest] = match[2].split("/").map((part) => part.trim())
+  const parts = body.split(/\s+/)
+  const space = syntax === "color" ? parts.shift()?.toLowerCase() : undefined
+  if (rest.length || parts.length !== 3 || (syntax === "color" && space !== "srgb" && space !== "display-p3")) {
+    return undefined
+  }
+
+  const parseComponent = (component: string, reference: number) => {
+    if (component === "none") return 0
+    const number = parseFloat(component)
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?(%|deg)?$/i.test(component)) return NaN
+    return component.endsWith("%") ? (number / 100) * reference : number
+  }
+
+  const [x, y, z] = parts.map((part, i) => parseComponent(part, percentReferences[syntax][i]))
+  const alpha = alphaPart === undefined ? undefined : clamp(parseComponent(alphaPart, 1))
+  if ([x, y, z, alpha ?? 0].some(Number.isNaN)) {
+    return undefined
+  }
+
+  const polar = (h: number, c: number) => [c * Math.cos((h * Math.PI) / 180), c * Math.sin((h * Math.PI) / 180)]
+  switch (syntax) {
+    case "oklch": {
+      const [a, b] = polar(z, y)
+      return { l: x, a, b, alpha }
+    }
+    case "oklab":
+      return { l: x, a: y, b: z, alpha }
+    case "lab":
+      return labToOklab({ l: x, a: y, b: z, alpha })
+    case "lch": {
+      const [a, b] = polar(z, y)
+      return labToOklab({ l: x, a, b, alpha })
+    }
+    default: {
+      const linear = [x, y, z].map((channel) => toLinear(channel * 255))
+      return linearRgbToOklab(
+        space === "srgb" ? linear : multiply(xyzToLinearSrgb, multiply(linearP3ToXyz, linear)),
+        alpha,
+      )
+    }
+  }
+}
+
+/**
+ * Serializes an OKLab color in the requested syntax. Colors are mapped to
+ * the gamut of `hex`, `rgb`, `hsl` (sRGB) and `p3` (Display P3) by reducing
+ * their chroma; the other syntaxes are written as is.
+ *
+ * @example
+ * ```ts
+ * formatOklab({ l: 0.628, a: 0.225, b: 0.126 }, "oklch") // "oklch(62.8% 0.2579 29.25)"
+ * formatOklab(parseCssColor("color(display-p3 1 0 0)")!, "hex") // "#ff0000"
+ * ```
+ */
+function formatOklab(color: OklabColor, format: ColorFormat = "hex"): string {
+  const alpha = color.alpha === undefined ? 1 : round(clamp(color.alpha), 3)
+  const suffix = alpha < 1 ? ` / ${alpha}` : ""
+
+  switch (format) {
+    case "oklch": {
+      const { l, c, h } = oklabToOklch(color)
+      return `oklch(${round(l * 100, 2)}% ${round(c, 4)} ${round(h, 2)}${suffix})`
+    }
+    case "oklab":
+      return `oklab(${round(color.l * 100, 2)}% ${round(color.a, 4)} ${round(color.b, 4)}${suffix})`
+    case "lab": {
+      const { l, a, b } = oklabToLab(color)
+      return `lab(${round(l, 2)}% ${round(a, 2)} ${round(b, 2)}${suffix})`
+    }
+    case "lch": {
+      const { l, c, h } = oklabToOklch(oklabToLab(color))
+      return `lch(${round(l, 2)}% ${round(c, 2)} ${round(h, 2)}${suffix})`
+    }
+    case "p3": {
+      const mapped = oklchToOklab(reduceChroma(oklabToOklch({ ...color, l: clamp(color.l) }), "p3"))
+      const channels = oklabToLinear(mapped, "p3").map((channel) => round(clamp(fromLinear(channel) / 255), 4))
+      return `color(display-p3 ${channels.join(" ")}${suffix})`
+    }
+    default:
+      return formatColor(oklchToRgb(oklabToOklch(color)), format)
+  }
+}
+
+export {
+  apcaContrast,
+  clamp,
+  compositeOver,
+  contrastRatio,
+  deltaE2000,
+  formatColor,
+  formatOklab,
+  fromLinear,
+  inGamut,
+  labToOklab,
+  oklabToLab,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToRgb,
+  parseCssColor,
+  relativeLuminance,
+  rgbToHsl,
+  rgbToOklab,
+  rgbToOklch,
+  round,
+  roundRgb,
+  srgbFormats,
+  toLinear,
+}
+export type { ColorFormat, Gamut, OklabColor, OklchColor, RgbColor }
@@ -0,0 +1,426 @@
+import type { RgbColor } from "./color"
+import {
+  apcaContrast,
+  compositeOver,
+  contrastRatio,
+  formatColor,
+  oklchToRgb,
+  rgbToOklch,
+  round,
+  roundRgb,
+} from "./color"
+import type { Logger, TokenName } from "./index"
+
+/**
+ * Declares a foreground token that is displayed over a background token.
+ *
+ * @template TKey - The theme token names
+ *
+ * @example
+ * ```ts
+ * const pair: ContrastPair<"button.label" | "button.bg"> = { fg: "button.label", bg: "button.bg" }
+ * ```
+ */
+type ContrastPair<TKey extends string = TokenName> = { fg: TKey; bg: TKey }
+
+/**
+ * WCAG conformance level.
+ */
+type ContrastLevel = "AA" | "AAA"
+
+/**
+ * Text size category used by the WCAG thresholds. Large text is at least
+ * 18pt, or 14pt bold.
+ */
+type TextSize = "normal" | "large"
+
+/**
+ * Options for auditing the contrast of foreground/background pairs.
+ */
+type ContrastAuditOptions = {
+  /** WCAG level a pair must meet to pass (default "AA") */
+  level?: ContrastLevel
+  /** Text size the thresholds apply to (default "normal") */
+  size?: TextSize
+  /** Minimum absolute APCA `Lc` a pair must reach to pass, disabled by default */
+  apca?: number
+  /** Also audit the generated variants (default true) */
+  variants?: boolean
+}
+
+/**
+ * Contrast a corrected foreground must reach over its backgrounds.
+ *
+ * @example
+ * ```ts
+ * const target: ContrastTarget = { ratio: 7, apca: 75 }
+ * ```
+ */
+type ContrastTarget = {
+  /** Minimum WCAG 2.x contrast ratio (default 4.5) */
+  ratio?: number
+  /** Minimum absolute APCA `Lc`, disabled by default */
+  apca?: number
+}
+
+/**
+ * Result of correcting a foreground color.
+ */
+type ContrastCorrection = {
+  /** The corrected color, or the original one when no change was needed */
+  color: RgbColor
+  /** Whether the color changed */
+  changed: boolean
+  /** Whether the target is met over every background */
+  passed: boolean
+}
+
+/**
+ * Corrections of previous runs towards a same target, keyed by formatted
+ * key, along with the colors of the entry and its backgrounds they were
+ * computed from.
+ */
+type ContrastCorrections = Map<string, { colors: string; correction: ContrastCorrection }>
+
+/**
+ * Contrast measurement of a single foreground/background combination.
+ */
+type ContrastResult = {
+  /** Foreground token */
+  fg: string
+  /** Background token */
+  bg: string
+  /** Formatted key of the foreground color or variant */
+  foreground: string
+  /** Formatted key of the background color or variant */
+  background: string
+  /** WCAG 2.x contrast ratio, rounded to two decimals */
+  ratio: number
+  /** APCA lightness contrast, rounded to one decimal */
+  apca: number
+  /** WCAG pass/fail for every level and text size */
+  wcag: Record<ContrastLevel, Record<TextSize, boolean>>
+  /** Whether the combination meets the audited level, size and APCA threshold */
+  passed: boolean
+}
+
+/**
+ * Result of a contrast audit.
+ */
+type ContrastReport = {
+  /** Whether every audited combination passed */
+  passed: boolean
+  /** Every audited combination */
+  results: ContrastResult[]
+  /** The combinations that did not pass */
+  failures: ContrastResult[]
+}
+
+/**
+ * A generated color to audit, along with the token and variant it comes from.
+ */
+type ContrastEntry = {
+  key: string
+  token: string
+  variant?: string
+  color: RgbColor
+}
+
+const wcagThresholds: Record<ContrastLevel, Record<TextSize, number>> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+}
+
+const white: RgbColor = { r: 255, g: 255, b: 255 }
+
+/**
+ * Flattens translucent colors into the opaque colors seen on screen: the
+ * background over white, then the foreground over the background.
+ */
+const flatten = (foreground: RgbColor, background: RgbColor): [RgbColor, RgbColor] => {
+  const opaque = compositeOver(background, white)
+  return [compositeOver(foreground, opaque), opaque]
+}
+
+const foregroundScopes = ["fg", "foreground"]
+const backgroundScopes = ["bg", "background"]
+
+/**
+ * Pairs foreground and background tokens sharing the same namespace,
+ * e.g. `text.fg` with `text.bg` or `card.foreground` with `card.background`.
+ *
+ * @param tokens - Tokens of the theme
+ * @returns The matching pairs
+ */
+function findContrastPairs<TKey extends string>(tokens: Iterable<TKey>): ContrastPair<TKey>[] {
+  const registry = new Set(tokens)
+  const pairs: ContrastPair<TKey>[] = []
+
+  for (const token of registry) {
+    const separator = token.lastIndexOf(".")
+    if (!foregroundScopes.includes(token.slice(separator + 1))) {
+      continue
+    }
+
+    for (const scope of backgroundScopes) {
+      const bg = `${token.slice(0, separator)}.${scope}` as TKey
+      if (registry.has(bg)) {
+        pairs.push({ fg: token, bg })
+      }
+    }
+  }
+
+  return pairs
+}
+
+/**
+ * Measures a foreground color over a background color, compositing
+ * translucent colors first.
+ */
+function measureContrast(foreground: RgbColor, background: RgbColor) {
+  const [fg, bg] = flatten(foreground, background)
+  const ratio = contrastRatio(fg, bg)
+  const wcag = {
+    AA: { normal: ratio >= wcagThresholds.AA.normal, large: ratio >= wcagThresholds.AA.large },
+    AAA: { normal: ratio >= wcagThresholds.AAA.normal, large: ratio >= wcagThresholds.AAA.large },
+  }
+  return { ratio, apca: apcaContrast(fg, bg), wcag }
+}
+
+/**
+ * Audits the WCAG 2.x ratio and APCA `Lc` of every pair, for the base colors
+ * and, unless disabled, for each variant of the foreground over the base
+ * background and the base foreground over each variant of the background.
+ * Failures are reported through the logger.
+ *
+ * @param entries - Generated colors, base colors and variants
+ * @param pairs - Foreground/background pairs to audit
+ * @param options - Level, text size and APCA threshold
+ * @param logger - Logger reporting failures and unknown tokens
+ * @returns The structured report
+ */
+function auditContrast(
+  entries: ContrastEntry[],
+  pairs: ContrastPair<string>[],
+  options: ContrastAuditOptions,
+  logger: Logger,
+): ContrastReport {
+  const { level = "AA", size = "normal", apca, variants = true } = options
+  const results: ContrastResult[] = []
+
+  const byToken = new Map<string, ContrastEntry[]>()
+  for (const entry of entries) {
+    const group = byToken.get(entry.token) ?? []
+    // Keep the base color first
+    if (entry.variant) group.push(entry)
+    else group.unshift(entry)
+    byToken.set(entry.token, group)
+  }
+
+  for (const { fg, bg } of pairs) {
+    const [fgBase, ...fgVariants] = byToken.get(fg) ?? []
+    const [bgBase, ...bgVariants] = byToken.get(bg) ?? []
+
+    if (!fgBase || fgBase.variant || !bgBase || bgBase.variant) {
+      logger.warn(`Contrast pair ${fg}/${bg} has no generated color. Skipping...`)
+      continue
+    }
+
+    const combinations: Array<[ContrastEntry, ContrastEntry]> = [[fgBase, bgBase]]
+    if (variants) {
+      combinations.push(...fgVariants.map((entry): [ContrastEntry, ContrastEntry] => [entry, bgBase]))
+      combinations.push(...bgVariants.map((entry): [ContrastEntry, ContrastEntry] => [fgBase, entry]))
+    }
+
+    for (const [foreground, background] of combinations) {
+      const measure = measureContrast(foreground.color, background.color)
+      const passed = measure.wcag[level][size] && (apca === undefined || Math.abs(measure.apca) >= apca)
+
+      results.push({
+        fg,
+        bg,
+        foreground: foreground.key,
+        background: background.key,
+        ratio: round(measure.ratio, 2),
+        apca: round(measure.apca, 1),
+        wcag: measure.wcag,
+        passed,
+      })
+    }
+  }
+
+  const failures = results.filter((result) => !result.passed)
+  for (const failure of failures) {
+    const required = apca === undefined ? "" : ` and Lc ${apca}`
+    logger.warn(
+      `Contrast of ${failure.foreground} over ${failure.background} is ${failure.ratio}:1 (Lc ${failure.apca}), ` +
+        `below ${level} ${size} text (${wcagThresholds[level][size]}:1${required}).`,
+    )
+  }
+
+  return { passed: failures.length === 0, results, failures }
+}
+
+/**
+ * Adjusts the OKLCH lightness of a foreground color, keeping its hue and as
+ * much of its chroma as the sRGB gamut allows, until it reaches the target
+ * contrast over every background. The smallest lightness change is chosen,
+ * towards black or white. When the target cannot be reached, the color
+ * closest to it is returned.
+ *
+ * @param foreground - The foreground color to correct
+ * @param backgrounds - Backgrounds the foreground is displayed over
+ * @param target - Minimum WCAG ratio and APCA `Lc`
+ * @returns The corrected color
+ *
+ * @example
+ * ```ts
+ * correctContrast({ r: 150, g: 150, b: 150 }, [{ r: 255, g: 255, b: 255 }], { ratio: 4.5 })
+ * // { color: { r: 118, g: 118, b: 118 }, changed: true, passed: true }
+ * ```
+ */
+function correctContrast(
+  foreground: RgbColor,
+  backgrounds: RgbColor[],
+  target: ContrastTarget = {},
+): ContrastCorrection {
+  const { ratio = wcagThresholds.AA.normal, apca } = target
+  const minRatio = (color: RgbColor) => Math.min(...backgrounds.map((bg) => contrastRatio(...flatten(color, bg))))
+  const passes = (color: RgbColor) =>
+    minRatio(color) >= ratio &&
+    (apca === undefined || backgrounds.every((bg) => Math.abs(apcaContrast(...flatten(color, bg))) >= apca))
+
+  if (passes(foreground)) {
+    return { color: foreground, changed: false, passed: true }
+  }
+
+  const base = rgbToOklch(foreground)
+  const withLightness = (l: number) => roundRgb(oklchToRgb({ ...base, l }))
+
+  let best: { color: RgbColor; delta: number } | undefined
+  for (const limit of [0, 1]) {
+    if (!passes(withLightness(limit))) {
+      continue
+    }
+
+    // Narrow down the lightness closest to the original that still passes
+    let near = base.l
+    let far = limit
+    for (let i = 0; i < 24; i++) {
+      const middle = (near + far) / 2
+      if (passes(withLightness(middle))) far = middle
+      else near = middle
+    }
+
+    const delta = Math.abs(far - base.l)
+    if (!best || delta < best.delta) {
+      best = { color: withLightness(far), delta }
+    }
+  }
+
+  if (best) {
+    return { color: best.color, changed: true, passed: true }
+  }
+
+  const [darkest, lightest] = [withLightness(0), withLightness(1)]
+  const closest = minRatio(darkest) >= minRatio(lightest) ? darkest : lightest
+  return { color: closest, changed: true, passed: false }
+}
+
+/**
+ * Corrects the foreground colors of every pair so they reach the target
+ * contrast. Base foregrounds are corrected over the base background and
+ * its variants, foreground variants over the base background. Each change
+ * is reported through `logger.info`, or `logger.warn` when the logger has
+ * no `info`. Cached corrections are reused while the entry and its
+ * backgrounds keep their colors, without being reported again.
+ *
+ * @param entries - Generated colors, base colors and variants
+ * @param pairs - Foreground/background pairs to correct
+ * @param target - Minimum WCAG ratio and APCA `Lc`
+ * @param logger - Logger reporting changes and unreachable targets
+ * @param cache - Corrections of previous runs, updated with the new ones
+ * @returns Corrected colors keyed by formatted key, only for changed entries
+ */
+function correctEntries(
+  entries: ContrastEntry[],
+  pairs: ContrastPair<string>[],
+  target: ContrastTarget,
+  logger: Logger,
+  cache?: ContrastCorrections,
+): Map<string, RgbColor> {
+  const byToken = new Map<string, { base?: ContrastEntry; variants: ContrastEntry[] }>()
+  for (const entry of entries) {
+    const group = byToken.get(entry.token) ?? { variants: [] }
+    if (entry.variant) group.variants.push(entry)
+    else group.base = entry
+    byToken.set(entry.token, group)
+  }
+
+  // Collect every background each foreground entry is displayed over
+  const backgrounds = new Map<string, { entry: ContrastEntry; over: ContrastEntry[] }>()
+  const addBackgrounds = (entry: ContrastEntry, over: ContrastEntry[]) => {
+    const item = backgrounds.get(entry.key) ?? { entry, over: [] }
+    item.over.push(...over.filter((bg) => !item.over.includes(bg)))
+    backgrounds.set(entry.key, item)
+  }
+
+  for (const { fg, bg } of pairs) {
+    const foreground = byToken.get(fg)
+    const background = byToken.get(bg)
+    if (!foreground?.base || !background?.base) {
+      continue
+    }
+
+    addBackgrounds(foreground.base, [background.base, ...background.variants])
+    foreground.variants.forEach((variant) => addBackgrounds(variant, [background.base!]))
+  }
+
+  const corrected = new Map<string, RgbColor>()
+  for (const { entry, over } of backgrounds.values()) {
+    const colors = [entry, ...over].map(({ key, color }) => `${key} ${formatColor(color)}`).join(", ")
+    const cached = cache?.get(entry.key)
+    if (cached?.colors === colors) {
+      if (cached.correction.changed) corrected.set(entry.key, cached.correction.color)
+      continue
+    }
+
+    const correction = correctContrast(
+      entry.color,
+      over.map(({ color }) => color),
+      target,
+    )
+    if (!correction.changed) {
+      cache?.set(entry.key, { colors, correction })
+      continue
+    }
+
+    const from = formatColor(entry.color)
+    const to = formatColor(correction.color)
+    const keys = over.map(({ key }) => key).join(", ")
+    if (correction.passed) {
+      ;(logger.info ?? logger.warn)(`Adjusted ${entry.key} from ${from} to ${to} for contrast over ${keys}.`)
+    } else {
+      logger.warn(`Unable to reach the contrast target for ${entry.key} over ${keys}. Using ${to} instead of ${from}.`)
+    }
+    // Cached once reported, strict loggers having thrown otherwise
+    cache?.set(entry.key, { colors, correction })
+    corrected.set(entry.key, correction.color)
+  }
+
+  return corrected
+}
+
+export { auditContrast, correctContrast, correctEntries, findContrastPairs, measureContrast, wcagThresholds }
+export type {
+  ContrastAuditOptions,
+  ContrastCorrection,
+  ContrastCorrections,
+  ContrastEntry,
+  ContrastLevel,
+  ContrastPair,
+  ContrastReport,
+  ContrastResult,
+  ContrastTarget,
+  TextSize,
+}
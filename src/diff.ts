@@ -0,0 +1,216 @@
+import type { RgbColor } from "./color"
+import { deltaE2000, formatColor, round } from "./color"
+import type { ContrastAuditOptions, ContrastEntry, ContrastPair, ContrastResult } from "./contrast"
+import { auditContrast } from "./contrast"
+
+/**
+ * Kind of difference between two themes for a single key.
+ */
+type DiffKind = "added" | "removed" | "changed"
+
+/**
+ * Difference between two themes for a single generated key.
+ *
+ * @example
+ * ```ts
+ * const change: TokenDiff = {
+ *   kind: "changed",
+ *   key: "--button-bg-lighter",
+ *   token: "button.bg",
+ *   variant: "lighter",
+ *   before: "#5c85ff",
+ *   after: "#5d86ff",
+ *   deltaE: 0.4,
+ *   cosmetic: true,
+ * }
+ * ```
+ */
+type TokenDiff = {
+  kind: DiffKind
+  /** Formatted key, as produced by `generateTheme()` */
+  key: string
+  /** Registry token the key was generated from */
+  token: string
+  /** Variant name, when the key is a color variant */
+  variant?: string
+  /** Hex color before the change, absent for added keys */
+  before?: string
+  /** Hex color after the change, absent for removed keys */
+  after?: string
+  /** CIEDE2000 difference of changed colors, rounded to two decimals */
+  deltaE?: number
+  /** Whether the change is below the just noticeable difference */
+  cosmetic?: boolean
+}
+
+/**
+ * A foreground/background combination whose WCAG pass/fail flipped.
+ */
+type ContrastDiff = {
+  /** Formatted key of the foreground color or variant */
+  foreground: string
+  /** Formatted key of the background color or variant */
+  background: string
+  /** Ratio and pass/fail before the change */
+  before: Pick<ContrastResult, "ratio" | "passed">
+  /** Ratio and pass/fail after the change */
+  after: Pick<ContrastResult, "ratio" | "passed">
+}
+
+/**
+ * Result of comparing two themes.
+ */
+type ThemeDiff = {
+  /** Whether the themes generate the same colors */
+  identical: boolean
+  /** Keys only present after the change */
+  added: TokenDiff[]
+  /** Keys only present before the change */
+  removed: TokenDiff[]
+  /** Keys whose color changed, cosmetic changes included */
+  changed: TokenDiff[]
+  /** Paired combinations whose WCAG pass/fail flipped */
+  contrast: ContrastDiff[]
+}
+
+/**
+ * Options for comparing two themes.
+ */
+type DiffOptions = Pick<ContrastAuditOptions, "level" | "size"> & {
+  /** CIEDE2000 difference below which a change is cosmetic (default 1) */
+  threshold?: number
+}
+
+/**
+ * A side of a comparison: its generated colors and the pairs to audit.
+ */
+type DiffSide = {
+  entries: ContrastEntry[]
+  pairs: ContrastPair<string>[]
+}
+
+const silentLogger = { warn: () => {}, error: () => {} }
+
+/**
+ * Compares the generated colors of two themes. Every key is matched by name,
+ * changed colors are scored with CIEDE2000, and the contrast of the paired
+ * tokens on both sides is audited to find the combinations whose WCAG
+ * pass/fail flipped.
+ *
+ * @param before - Colors and pairs before the change
+ * @param after - Colors and pairs after the change
+ * @param options - Just noticeable difference, WCAG level and text size
+ * @returns The added, removed and changed keys, and the contrast flips
+ *
+ * @example
+ * ```ts
+ * const diff = diffThemes(
+ *   { entries: [{ key: "text.fg", token: "text.fg", color: { r: 51, g: 51, b: 51 } }], pairs: [] },
+ *   { entries: [{ key: "text.fg", token: "text.fg", color: { r: 52, g: 51, b: 51 } }], pairs: [] },
+ * )
+ * diff.changed // [{ kind: "changed", key: "text.fg", deltaE: 0.29, cosmetic: true, ... }]
+ * ```
+ */
+function diffThemes(before: DiffSide, after: DiffSide, options: DiffOptions = {}): ThemeDiff {
+  const { threshold = 1, level = "AA", size = "normal" } = options
+  const previous = new Map(before.entries.map((entry) => [entry.key, entry]))
+  const next = new Map(after.entries.map((entry) => [entry.key, entry]))
+  const hex = (color: RgbColor) => formatColor(color, "hex")
+
+  const removed: TokenDiff[] = before.entries
+    .filter(({ key }) => !next.has(key))
+    .map(({ key, token, variant, color }) => ({ kind: "removed", key, token, variant, before: hex(color) }))
+  const added: TokenDiff[] = []
+  const changed: TokenDiff[] = []
+
+  for (const { key, token, variant, color } of after.entries) {
+    const original = previous.get(key)
+    if (!original) {
+      added.push({ kind: "added", key, token, variant, after: hex(color) })
+      continue
+    }
+
+    if (hex(original.color) === hex(color)) {
+      continue
+    }
+
+    const deltaE = round(deltaE2000(original.color, color), 2)
+    changed.push({
+      kind: "changed",
+      key,
+      token,
+      variant,
+      before: hex(original.color),
+      after: hex(color),
+      deltaE,
+      cosmetic: deltaE < threshold,
+    })
+  }
+
+  // Combinations are matched by their formatted keys on both sides
+  const audit = ({ entries, pairs }: DiffSide) =>
+    new Map(
+      auditContrast(entries, pairs, { level, size }, silentLogger).results.map((result) => [
+        `${result.foreground}\u0000${result.background}`,
+        result,
+      ]),
+    )
+  const previousContrast = audit(before)
+  const contrast: ContrastDiff[] = []
+  for (const [combination, result] of audit(after)) {
+    const original = previousContrast.get(combination)
+    if (original && original.passed !== result.passed) {
+      contrast.push({
+        foreground: result.foreground,
+        background: result.background,
+        before: { ratio: original.ratio, passed: original.passed },
+        after: { ratio: result.ratio, passed: result.passed },
+      })
+    }
+  }
+
+  return {
+    identical: !added.length && !removed.length && !changed.length,
+    added,
+    removed,
+    changed,
+    contrast,
+  }
+}
+
+/**
+ * Renders a theme diff as readable text, one line per difference, for
+ * reviews and terminals.
+ *
+ * @param diff - The diff to render
+ * @returns The rendered lines, or a single line when nothing changed
+ *
+ * @example
+ * ```ts
+ * formatDiff(diff)
+ * // ~ --button-bg: #3366ff -> #2255ee (ΔE 4.12)
+ * // ! --text-fg over --text-bg: 4.61:1 -> 4.2:1, now fails
+ * ```
+ */
+function formatDiff(diff: ThemeDiff): string {
+  if (diff.identical && !diff.contrast.length) {
+    return "No changes."
+  }
+
+  const lines = [
+    ...diff.added.map(({ key, after }) => `+ ${key}: ${after}`),
+    ...diff.removed.map(({ key, before }) => `- ${key}: ${before}`),
+    ...diff.changed.map(
+      ({ key, before, after, deltaE, cosmetic }) =>
+        `~ ${key}: ${before} -> ${after} (ΔE ${deltaE}${cosmetic ? ", cosmetic" : ""})`,
+    ),
+    ...diff.contrast.map(
+      ({ foreground, background, before, after }) =>
+        `! ${foreground} over ${background}: ${before.ratio}:1 -> ${after.ratio}:1, now ${after.passed ? "passes" : "fails"}`,
+    ),
+  ]
+  return lines.join("\n")
+}
+
+export { diffThemes, formatDiff }
+export type { ContrastDiff, DiffKind, DiffOptions, DiffSide, ThemeDiff, TokenDiff }
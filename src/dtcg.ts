@@ -0,0 +1,294 @@
+import type { TokenValue } from "./aliases"
+import { parseReference } from "./aliases"
+import type { AliasExportOptions, Exporter, ExportEntry } from "./exporters"
+import type { Logger, TokenName } from "./index"
+import type { TokenCategory } from "./tokens"
+
+/**
+ * Metadata of a design token, kept alongside its color and written back by
+ * the DTCG and Style Dictionary exporters.
+ *
+ * @example
+ * ```ts
+ * const metadata: TokenMetadata = {
+ *   type: "color",
+ *   description: "Primary action background",
+ *   extensions: { "com.figma": { hiddenFromPublishing: true } },
+ * }
+ * ```
+ */
+type TokenMetadata = {
+  /** Token type, always "color" for imported tokens */
+  type?: string
+  /** Human readable description */
+  description?: string
+  /** Vendor specific data, as found under `$extensions` */
+  extensions?: Record<string, unknown>
+}
+
+/**
+ * Flavor of a design token file: the W3C Design Tokens Community Group format
+ * (`$value`, `$type`, `$description`) or the Style Dictionary one (`value`,
+ * `type`, `comment`).
+ */
+type TokenFileFormat = "dtcg" | "style-dictionary"
+
+/**
+ * Options for importing a design token file.
+ */
+type TokenImportOptions = {
+  /** Flavor of the file (default detected from the presence of `$value`) */
+  format?: TokenFileFormat
+  /** Logger reporting skipped tokens (default silent) */
+  logger?: Logger
+}
+
+/**
+ * Colors and metadata imported from a design token file, ready to be passed
+ * to the `ThemeManager` constructor.
+ */
+type TokenImport = {
+  /** Color or alias of every color token, keyed by token path */
+  colors: Record<TokenName, TokenValue>
+  /** Metadata of every color token, keyed by token path */
+  metadata: Record<TokenName, TokenMetadata>
+}
+
+/**
+ * Options for exporting a theme as a design token file.
+ */
+type TokenExportOptions = AliasExportOptions & {
+  /** Indentation of the JSON output, `0` for a single line (default 2) */
+  indent?: number
+}
+
+/**
+ * Extension namespace marking the variants written by the exporters, so that
+ * importing an exported file does not register them as tokens.
+ */
+const extensionNamespace = "themix"
+
+/**
+ * Token type written for each design token category.
+ */
+const categoryTypes: Record<TokenCategory, string> = {
+  spacing: "dimension",
+  radius: "dimension",
+  fontSize: "dimension",
+  fontFamily: "fontFamily",
+  fontWeight: "fontWeight",
+  shadow: "shadow",
+  duration: "duration",
+}
+
+/**
+ * CSS function of the color spaces defined by the DTCG color module.
+ */
+const colorSpaceFunctions: Record<string, (components: string) => string> = {
+  srgb: (components) => `color(srgb ${components})`,
+  "display-p3": (components) => `color(display-p3 ${components})`,
+  oklch: (components) => `oklch(${components})`,
+  oklab: (components) => `oklab(${components})`,
+  lab: (components) => `lab(${components})`,
+  lch: (components) => `lch(${components})`,
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Turns a DTCG color value into a CSS color string. Strings are kept as-is,
+ * and color objects (`{ colorSpace, components, alpha, hex }`) use their hex
+ * fallback or the CSS function of their color space.
+ *
+ * @example
+ * ```ts
+ * toCssColor({ colorSpace: "oklch", components: [0.628, 0.2577, 29.23] }) // "oklch(0.628 0.2577 29.23)"
+ * toCssColor({ colorSpace: "srgb", components: [1, 0, 0], hex: "#ff0000" }) // "#ff0000"
+ * ```
+ */
+function toCssColor(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value
+  }
+  if (!isObject(value)) {
+    return undefined
+  }
+
+  const alpha = typeof value.alpha === "number" && value.alpha < 1 ? value.alpha : undefined
+  if (typeof value.hex === "string") {
+    const byte = alpha === undefined ? undefined : Math.round(alpha * 255)
+    return byte === undefined ? value.hex : `${value.hex}${byte.toString(16).padStart(2, "0")}`
+  }
+
+  const format = colorSpaceFunctions[String(value.colorSpace)]
+  if (!format || !Array.isArray(value.components)) {
+    return undefined
+  }
+  const components = value.components.map((component) => (component === "none" ? "none" : Number(component)))
+  return format(`${components.join(" ")}${alpha === undefined ? "" : ` / ${alpha}`}`)
+}
+
+/**
+ * Imports the color tokens of a DTCG or Style Dictionary file. Groups are
+ * flattened into dotted token paths, group `$type` is inherited by nested
+ * tokens, and aliases are kept as references once their target is known to
+ * be a color. Tokens of other types, variants written by the exporters and
+ * broken aliases are skipped.
+ *
+ * @param input - The token file, as JSON or parsed
+ * @param options - File flavor and logger
+ * @returns The colors and metadata of every color token
+ *
+ * @example
+ * ```ts
+ * const { colors, metadata } = importTokens({
+ *   brand: { primary: { $value: "#3366ff", $type: "color" } },
+ *   button: { bg: { $value: "{brand.primary}", $description: "Primary action" } },
+ * })
+ * // colors: { "brand.primary": "#3366ff", "button.bg": "{brand.primary}" }
+ * const theme = new ThemeManager({ colors, metadata })
+ * ```
+ */
+function importTokens(input: string | object, options: TokenImportOptions = {}): TokenImport {
+  const root: unknown = typeof input === "string" ? JSON.parse(input) : input
+  const { logger } = options
+  const format = options.format ?? (JSON.stringify(root).includes('"$value"') ? "dtcg" : "style-dictionary")
+  const key = (name: string) => (format === "dtcg" ? `$${name}` : name)
+
+  type RawToken = { value: unknown; type?: string; metadata: TokenMetadata }
+  const raw: Record<string, RawToken> = {}
+
+  const visit = (node: Record<string, unknown>, path: string[], inheritedType?: string) => {
+    const type = typeof node[key("type")] === "string" ? (node[key("type")] as string) : inheritedType
+    if (key("value") in node) {
+      const description = node[key("description")] ?? node.comment
+      const extensions = node.$extensions
+      raw[path.join(".")] = {
+        value: node[key("value")],
+        type,
+        metadata: {
+          ...(type && { type }),
+          ...(typeof description === "string" && { description }),
+          ...(isObject(extensions) && { extensions }),
+        },
+      }
+      return
+    }
+
+    for (const [name, child] of Object.entries(node)) {
+      if (!name.startsWith("$") && isObject(child)) {
+        visit(child, [...path, name], type)
+      }
+    }
+  }
+
+  if (isObject(root)) {
+    visit(root, [])
+  }
+
+  // Style Dictionary aliases may point at the value itself, e.g. "{brand.primary.value}"
+  const targetOf = (value: unknown) => parseReference(value)?.replace(/\.\$?value$/, "")
+
+  // Untyped tokens take the type of the token they reference, and are colors otherwise
+  const typeOf = (token: string, visited = new Set<string>()): string | undefined => {
+    const entry = raw[token]
+    if (!entry || visited.has(token)) return undefined
+    if (entry.type) return entry.type
+    const target = targetOf(entry.value)
+    return target === undefined ? "color" : typeOf(target, visited.add(token))
+  }
+
+  const colors: Record<string, TokenValue> = {}
+  const metadata: Record<string, TokenMetadata> = {}
+  for (const [token, { value, metadata: tokenMetadata }] of Object.entries(raw)) {
+    const extension = tokenMetadata.extensions?.[extensionNamespace]
+    if (isObject(extension) && extension.variant !== undefined) {
+      continue
+    }
+
+    if (!token.includes(".")) {
+      logger?.warn(`Token ${token} is not namespaced. Skipping...`)
+      continue
+    }
+
+    const type = typeOf(token)
+    if (type !== "color") {
+      logger?.warn(`Token ${token} has type ${type ?? "unknown"}, not color. Skipping...`)
+      continue
+    }
+
+    const target = targetOf(value)
+    if (target !== undefined && typeOf(target) !== "color") {
+      logger?.warn(`Token ${token} references unknown color token ${target}. Skipping...`)
+      continue
+    }
+
+    const color = target !== undefined ? `{${target}}` : toCssColor(value)
+    if (color === undefined) {
+      logger?.warn(`Token ${token} has an unsupported color value. Skipping...`)
+      continue
+    }
+
+    colors[token] = color as TokenValue
+    metadata[token] = { ...tokenMetadata, type: "color" }
+  }
+
+  return { colors, metadata } as TokenImport
+}
+
+/**
+ * Builds the nested token tree of a design token file from generated
+ * entries. Each token is placed at its path, and each variant next to its
+ * token with the variant name appended to the last segment
+ * (`button.bg.lighter` becomes `button` > `bg-lighter`). DTCG files write
+ * design tokens as values of their type, Style Dictionary files as CSS.
+ */
+function renderTokens(entries: ExportEntry[], options: TokenExportOptions, format: TokenFileFormat): string {
+  const { indent = 2 } = options
+  const preserve = options.aliases === "preserve"
+  const key = (name: string) => (format === "dtcg" ? `$${name}` : name)
+  const tokens = new Map(entries.filter(({ variant }) => !variant).map(({ key, token }) => [key, token]))
+  const tree: Record<string, unknown> = {}
+
+  for (const { token, variant, reference, value, metadata, category, dtcgValue } of entries) {
+    const path = token.split(".")
+    if (variant) {
+      path.push(`${path.pop()}-${variant}`)
+    }
+
+    let group = tree
+    for (const name of path.slice(0, -1)) {
+      group = (group[name] ??= {}) as Record<string, unknown>
+    }
+
+    const target = reference && tokens.get(reference)
+    const extensions = variant
+      ? { ...metadata?.extensions, [extensionNamespace]: { token, variant } }
+      : metadata?.extensions
+    // DTCG types require structured values, design tokens it cannot express stay untyped CSS strings
+    const typed = !category || format === "style-dictionary" || dtcgValue !== undefined
+    group[path[path.length - 1]] = {
+      [key("value")]: preserve && target ? `{${target}}` : category && format === "dtcg" ? (dtcgValue ?? value) : value,
+      ...(typed && { [key("type")]: category ? categoryTypes[category] : "color" }),
+      ...(!variant &&
+        metadata?.description && { [key(format === "dtcg" ? "description" : "comment")]: metadata.description }),
+      ...(extensions && { $extensions: extensions }),
+    }
+  }
+
+  return `${JSON.stringify(tree, null, indent)}\n`
+}
+
+const dtcgExporter: Exporter<TokenExportOptions> = {
+  extension: "tokens.json",
+  export: (entries, options = {}) => renderTokens(entries, options, "dtcg"),
+}
+
+const styleDictionaryExporter: Exporter<TokenExportOptions> = {
+  extension: "json",
+  export: (entries, options = {}) => renderTokens(entries, options, "style-dictionary"),
+}
+
+export { dtcgExporter, importTokens, styleDictionaryExporter, toCssColor }
+export type { TokenExportOptions, TokenFileFormat, TokenImport, TokenImportOptions, TokenMetadata }
@@ -0,0 +1,411 @@
+import type { TokenMetadata } from "./dtcg"
+import type { Logger } from "./index"
+import type { TokenCategory } from "./tokens"
+import { nativeSupports } from "./native"
+
+/**
+ * A single generated color or design token handed to an exporter.
+ *
+ * @example
+ * ```ts
+ * const entry: ExportEntry = {
+ *   key: "--button-bg-lighter",
+ *   token: "button.bg",
+ *   variant: "lighter",
+ *   value: "#5c85ff",
+ * }
+ * ```
+ */
+type ExportEntry = {
+  /** Formatted key, as produced by `generateTheme()` */
+  key: string
+  /** Registry token the entry was generated from */
+  token: string
+  /** Variant name, when the entry is a color variant */
+  variant?: string
+  /** Formatted key of the token this entry is an alias of */
+  reference?: string
+  /** Serialized value */
+  value: string
+  /** CSS expression of a variant, computed from the custom property of its token */
+  css?: string
+  /** Category of design tokens, absent for colors */
+  category?: TokenCategory
+  /** Value of design tokens in the DTCG format of their type, when it can express it */
+  dtcgValue?: unknown
+  /** Metadata of the token, e.g. imported from a design token file */
+  metadata?: TokenMetadata
+}
+
+/**
+ * Turns generated entries into the contents of a file in a given format.
+ *
+ * @template O - Options accepted by the exporter
+ *
+ * @example
+ * ```ts
+ * // Plain "key=value" exporter
+ * const envExporter: Exporter = {
+ *   extension: "env",
+ *   export: (entries) => entries.map((e) => `${e.key}=${e.value}`).join("\n"),
+ * }
+ * ```
+ */
+type Exporter<O extends object = object> = {
+  /** File extension of the rendered output, without the dot */
+  extension: string
+  /** Renders the entries into the file contents */
+  export: (entries: ExportEntry[], options?: O) => string
+}
+
+/**
+ * Options for exporters able to keep aliases as references to other variables.
+ */
+type AliasExportOptions = {
+  /** Inline the resolved color of aliases, or keep them as references (default "inline") */
+  aliases?: "inline" | "preserve"
+}
+
+/**
+ * Options for exporters turning keys into variable names or identifiers,
+ * where distinct keys can end up with the same name.
+ */
+type NamingExportOptions = {
+  /** Logger reporting the entries skipped because their name is already taken */
+  logger?: Logger
+}
+
+/**
+ * Options for rendering a generated schema as a CSS stylesheet.
+ *
+ * @example
+ * ```ts
+ * const options: CssExportOptions = {
+ *   selector: '[data-theme="dark"]',
+ *   media: "(prefers-color-scheme: dark)",
+ * }
+ * ```
+ */
+type CssExportOptions = AliasExportOptions & {
+  /** Selector holding the declarations (default ":root") */
+  selector?: string
+  /** Media query wrapping the rule, with or without the leading "@media" */
+  media?: string
+  /** Feature query wrapping the rule, with or without the leading "@supports" */
+  supports?: string
+  /** Indentation unit used for nested blocks (default two spaces) */
+  indent?: string
+  /** Write variants as precomputed colors, or as CSS expressions following their token at runtime (default "precomputed") */
+  variants?: "precomputed" | "native"
+  /** Precede native variants with their precomputed colors, for browsers without support (default true) */
+  fallbacks?: boolean
+}
+
+/**
+ * Options for rendering SCSS variables.
+ */
+type ScssExportOptions = AliasExportOptions &
+  NamingExportOptions & {
+    /** Name of the map collecting every variable, or `false` to omit it (default "theme") */
+    map?: string | false
+  }
+
+/**
+ * Options for rendering Less variables.
+ */
+type LessExportOptions = AliasExportOptions & NamingExportOptions
+
+/**
+ * Options for rendering JavaScript and TypeScript modules.
+ */
+type ModuleExportOptions = NamingExportOptions & {
+  /** Name of an additional object export collecting every constant, or `false` to omit it (default false) */
+  collection?: string | false
+}
+
+/**
+ * Options for rendering a JSON object of generated keys and values.
+ */
+type JsonExportOptions = {
+  /** Indentation of the JSON output, `0` for a single line (default 2) */
+  indent?: number
+}
+
+/**
+ * Turns a formatted token key into a valid CSS custom property name.
+ * Adds the `--` prefix when missing and escapes characters that are not
+ * allowed in identifiers, so the configured divider is kept as-is.
+ *
+ * @example
+ * ```ts
+ * toCustomProperty("button-bg") // "--button-bg"
+ * toCustomProperty("button.bg") // "--button\\.bg"
+ * ```
+ */
+function toCustomProperty(key: string): string {
+  const name = key.startsWith("--") ? key.slice(2) : key.replace(/^-+/, "")
+  return `--${name.replace(/[^\w-]/g, (char) => `\\${char}`)}`
+}
+
+/**
+ * Turns a formatted token key into a Sass or Less variable name, without
+ * the leading sigil. Any prefix sigils are dropped and characters that are
+ * not allowed in identifiers are replaced by `-`.
+ *
+ * @example
+ * ```ts
+ * toStyleVariable("--button-bg") // "button-bg"
+ * toStyleVariable("button.bg:lighter") // "button-bg-lighter"
+ * ```
+ */
+function toStyleVariable(key: string): string {
+  const name = key
+    .replace(/^[-$@]+/, "")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/-+$/, "")
+  return /^\d/.test(name) ? `_${name}` : name
+}
+
+/**
+ * Turns a formatted token key into a camelCase JavaScript identifier. The
+ * case of each segment is kept, apart from its first letter.
+ *
+ * @example
+ * ```ts
+ * toIdentifier("--button-bg-lighter") // "buttonBgLighter"
+ * toIdentifier("button.primaryHover") // "buttonPrimaryHover"
+ * toIdentifier("brand.50") // "brand50"
+ * ```
+ */
+function toIdentifier(key: string): string {
+  const [head = "", ...rest] = key.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const name = [
+    head.charAt(0).toLowerCase() + head.slice(1),
+    ...rest.map((part) => part[0].toUpperCase() + part.slice(1)),
+  ].join("")
+  return /^\d/.test(name) || name === "" ? `_${name}` : name
+}
+
+/**
+ * Names every entry, skipping the ones whose name is already taken by a
+ * previous entry, e.g. `button.bg` and `button-bg` both becoming
+ * `button-bg`. Skipped entries are reported through the logger.
+ *
+ * @param entries - Generated entries
+ * @param toName - Turns a formatted key into a name
+ * @param logger - Logger reporting the skipped entries
+ * @returns The named entries, in their original order
+ */
+function nameEntries(
+  entries: ExportEntry[],
+  toName: (key: string) => string,
+  logger?: Logger,
+): Array<ExportEntry & { name: string }> {
+  const taken = new Map<string, string>()
+  return entries.flatMap((entry) => {
+    const name = toName(entry.key)
+    const previous = taken.get(name)
+    if (previous !== undefined) {
+      logger?.warn(`Keys ${previous} and ${entry.key} are both exported as ${name}. Skipping...`)
+      return []
+    }
+    taken.set(name, entry.key)
+    return [{ ...entry, name }]
+  })
+}
+
+const stripAtRule = (value: string, rule: string) => value.replace(new RegExp(`^\\s*@${rule}\\s+`), "").trim()
+
+/**
+ * Renders a schema of formatted keys and CSS color strings into a stylesheet.
+ * The rule is nested inside `@supports` and then `@media` when provided.
+ *
+ * @param schema - Formatted keys mapped to CSS color strings
+ * @param options - Selector, at-rule wrappers and formatting options
+ * @returns The complete stylesheet, ending with a newline
+ */
+function exportCSS(schema: Record<string, string>, options: CssExportOptions = {}): string {
+  const { selector = ":root", indent = "  " } = options
+
+  const wrappers: string[] = []
+  if (options.supports) wrappers.push(`@supports ${stripAtRule(options.supports, "supports")}`)
+  if (options.media) wrappers.push(`@media ${stripAtRule(options.media, "media")}`)
+
+  const depth = wrappers.length
+  const pad = (level: number) => indent.repeat(level)
+
+  const declarations = Object.entries(schema).map(
+    ([key, value]) => `${pad(depth + 1)}${toCustomProperty(key)}: ${value};`,
+  )
+
+  const lines = [
+    ...wrappers.map((wrapper, level) => `${pad(level)}${wrapper} {`),
+    `${pad(depth)}${selector} {`,
+    ...declarations,
+    `${pad(depth)}}`,
+    ...wrappers.map((_, level) => `${pad(depth - level - 1)}}`),
+  ]
+
+  return `${lines.join("\n")}\n`
+}
+
+/**
+ * Orders entries so that every alias comes after the entry it references,
+ * keeping the original order otherwise. Needed by formats evaluating
+ * variables eagerly, such as Sass.
+ */
+function orderByReference(entries: ExportEntry[]): ExportEntry[] {
+  const keys = new Set(entries.map(({ key }) => key))
+  const emitted = new Set<string>()
+  const ordered: ExportEntry[] = []
+  let pending = entries
+
+  while (pending.length) {
+    const ready = pending.filter(({ reference }) => !reference || !keys.has(reference) || emitted.has(reference))
+    // Leftovers can only be circular references, emit them as they are
+    const batch = ready.length ? ready : pending
+    batch.forEach(({ key }) => emitted.add(key))
+    ordered.push(...batch)
+    pending = pending.filter((entry) => !batch.includes(entry))
+  }
+
+  return ordered
+}
+
+const cssExporter: Exporter<CssExportOptions> = {
+  extension: "css",
+  export: (entries, options = {}) => {
+    const { variants = "precomputed", fallbacks = true, ...cssOptions } = options
+    const preserve = options.aliases === "preserve"
+    const native = variants === "native" ? entries.filter(({ css }) => css) : []
+    const inline = native.length > 0 && !fallbacks
+    const schema = Object.fromEntries(
+      entries.map(({ key, value, reference, css }) => {
+        if (inline && css) return [key, css]
+        return [key, preserve && reference ? `var(${toCustomProperty(reference)})` : value]
+      }),
+    )
+    const stylesheet = exportCSS(schema, cssOptions)
+    if (!native.length || inline) {
+      return stylesheet
+    }
+
+    // Browsers without the native syntaxes keep the precomputed colors
+    const nativeSchema = Object.fromEntries(native.map(({ key, css }) => [key, css!]))
+    const supports = [
+      cssOptions.supports && stripAtRule(cssOptions.supports, "supports"),
+      nativeSupports(Object.values(nativeSchema)),
+    ]
+      .filter(Boolean)
+      .join(" and ")
+    return `${stylesheet}\n${exportCSS(nativeSchema, { ...cssOptions, supports: supports || undefined })}`
+  },
+}
+
+const scssExporter: Exporter<ScssExportOptions> = {
+  extension: "scss",
+  export: (entries, options = {}) => {
+    const { map = "theme", logger } = options
+    const preserve = options.aliases === "preserve"
+    const named = nameEntries(preserve ? orderByReference(entries) : entries, toStyleVariable, logger)
+    const lines = named.map(({ name, value, reference }) =>
+      preserve && reference ? `$${name}: $${toStyleVariable(reference)};` : `$${name}: ${value};`,
+    )
+
+    if (map !== false) {
+      lines.push("", `$${map}: (`, ...named.map(({ name }) => `  "${name}": $${name},`), ");")
+    }
+
+    return `${lines.join("\n")}\n`
+  },
+}
+
+const lessExporter: Exporter<LessExportOptions> = {
+  extension: "less",
+  export: (entries, options = {}) => {
+    const preserve = options.aliases === "preserve"
+    const lines = nameEntries(entries, toStyleVariable, options.logger).map(({ name, value, reference }) =>
+      preserve && reference ? `@${name}: @${toStyleVariable(reference)};` : `@${name}: ${value};`,
+    )
+    return `${lines.join("\n")}\n`
+  },
+}
+
+type ModuleSyntax = {
+  constant: (name: string, value: string) => string
+  collection: (name: string, members: string[]) => string
+}
+
+const renderModule = (entries: ExportEntry[], options: ModuleExportOptions, syntax: ModuleSyntax) => {
+  const { collection = false, logger } = options
+  const named = nameEntries(entries, toIdentifier, logger)
+  const names = named.map(({ name }) => name)
+  const lines = named.map(({ name, value }) => syntax.constant(name, JSON.stringify(value)))
+
+  if (collection !== false) {
+    lines.push("", syntax.collection(collection, names))
+  }
+
+  return `${lines.join("\n")}\n`
+}
+
+const jsExporter: Exporter<ModuleExportOptions> = {
+  extension: "js",
+  export: (entries, options = {}) =>
+    renderModule(entries, options, {
+      constant: (name, value) => `export const ${name} = ${value}`,
+      collection: (name, members) => `export const ${name} = { ${members.join(", ")} }`,
+    }),
+}
+
+const tsExporter: Exporter<ModuleExportOptions> = {
+  extension: "ts",
+  export: (entries, options = {}) =>
+    renderModule(entries, options, {
+      constant: (name, value) => `export const ${name} = ${value} as const`,
+      collection: (name, members) => `export const ${name} = { ${members.join(", ")} } as const`,
+    }),
+}
+
+const dtsExporter: Exporter<ModuleExportOptions> = {
+  extension: "d.ts",
+  export: (entries, options = {}) =>
+    renderModule(entries, options, {
+      constant: (name, value) => `export declare const ${name}: ${value}`,
+      collection: (name, members) =>
+        `export declare const ${name}: { ${members.map((member) => `readonly ${member}: typeof ${member}`).join("; ")} }`,
+    }),
+}
+
+const jsonExporter: Exporter<JsonExportOptions> = {
+  extension: "json",
+  export: (entries, options = {}) => {
+    const { indent = 2 } = options
+    return `${JSON.stringify(Object.fromEntries(entries.map(({ key, value }) => [key, value])), null, indent)}\n`
+  },
+}
+
+export {
+  cssExporter,
+  dtsExporter,
+  exportCSS,
+  jsExporter,
+  jsonExporter,
+  lessExporter,
+  scssExporter,
+  toCustomProperty,
+  toIdentifier,
+  toStyleVariable,
+  tsExporter,
+}
+export type {
+  AliasExportOptions,
+  CssExportOptions,
+  Exporter,
+  ExportEntry,
+  JsonExportOptions,
+  LessExportOptions,
+  ModuleExportOptions,
+  NamingExportOptions,
+  ScssExportOptions,
+}
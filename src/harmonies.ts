@@ -0,0 +1,114 @@
+import type { RgbColor } from "./color"
+import { oklchToRgb, rgbToOklch, roundRgb } from "./color"
+
+/**
+ * Built-in harmony rules: names of the generated colors and their hue
+ * rotation from the base color, in degrees. Analogous and split
+ * complementary rotations are scaled by the `angle` option.
+ */
+const harmonyRules = {
+  complementary: { names: ["complement"], rotations: [180] },
+  triadic: { names: ["triad-1", "triad-2"], rotations: [120, 240] },
+  analogous: { names: ["analogous-1", "analogous-2"], rotations: [-1, 1] },
+  "split-complementary": { names: ["split-1", "split-2"], rotations: [-1, 1] },
+} as const
+
+/**
+ * Name of a built-in harmony rule.
+ */
+type HarmonyRule = keyof typeof harmonyRules
+
+/**
+ * Names of the colors generated by one or several harmony rules.
+ *
+ * @template TRule - The harmony rules
+ *
+ * @example
+ * ```ts
+ * type Names = HarmonyName<"complementary" | "triadic"> // "complement" | "triad-1" | "triad-2"
+ * ```
+ */
+type HarmonyName<TRule extends HarmonyRule> = (typeof harmonyRules)[TRule]["names"][number]
+
+/**
+ * Namespace of a token, everything before its last segment.
+ *
+ * @template TToken - The token name
+ *
+ * @example
+ * ```ts
+ * type Namespace = TokenNamespace<"brand.accent.primary"> // "brand.accent"
+ * ```
+ */
+type TokenNamespace<TToken extends string> = TToken extends `${infer Head}.${infer Tail}`
+  ? Tail extends `${string}.${string}`
+    ? `${Head}.${TokenNamespace<Tail>}`
+    : Head
+  : never
+
+/**
+ * Tokens generated by harmony rules next to a base token.
+ *
+ * @template TToken - The base token
+ * @template TRule - The harmony rules
+ *
+ * @example
+ * ```ts
+ * type Tokens = HarmonyToken<"accent.primary", "triadic"> // "accent.triad-1" | "accent.triad-2"
+ * ```
+ */
+type HarmonyToken<TToken extends string, TRule extends HarmonyRule> = `${TokenNamespace<TToken>}.${HarmonyName<TRule>}`
+
+/**
+ * Options shaping the generated harmonies.
+ */
+type HarmonyOptions = {
+  /** Hue distance, in degrees, of analogous colors from the base and of split complements from the complement (default 30) */
+  angle?: number
+}
+
+/**
+ * Generates the colors related to a base color by harmony rules. Hues are
+ * rotated in OKLCH, keeping the lightness and chroma of the base so that the
+ * harmonies stay visually balanced, and colors out of the sRGB gamut are
+ * mapped back by reducing their chroma.
+ *
+ * @param base - Color the harmonies are built around
+ * @param rules - Harmony rule or rules to apply
+ * @param options - Angle of analogous and split complementary colors
+ * @returns The color of every harmony, in rule order
+ *
+ * @example
+ * ```ts
+ * generateHarmony({ r: 51, g: 102, b: 255 }, ["complementary", "analogous"], { angle: 45 })
+ * // [{ name: "complement", color: {...} }, { name: "analogous-1", color: {...} }, { name: "analogous-2", color: {...} }]
+ * ```
+ */
+function generateHarmony<TRule extends HarmonyRule>(
+  base: RgbColor,
+  rules: TRule | readonly TRule[],
+  options: HarmonyOptions = {},
+): Array<{ name: HarmonyName<TRule>; color: RgbColor }> {
+  const { angle = 30 } = options
+  const { l, c, h, alpha } = rgbToOklch(base)
+  const harmonies: Array<{ name: HarmonyName<TRule>; color: RgbColor }> = []
+
+  for (const rule of typeof rules === "string" ? [rules] : rules) {
+    const { names, rotations } = harmonyRules[rule]
+    names.forEach((name, i) => {
+      const rotation =
+        rule === "analogous"
+          ? rotations[i] * angle
+          : rule === "split-complementary"
+            ? 180 + rotations[i] * angle
+            : rotations[i]
+      const hue = (((h + rotation) % 360) + 360) % 360
+      harmonies.push({ name: name as HarmonyName<TRule>, color: roundRgb(oklchToRgb({ l, c, h: hue, alpha })) })
+    })
+  }
+
+  return harmonies
+}
+
+export { generateHarmony, harmonyRules }
+export type { HarmonyName, HarmonyOptions, HarmonyRule, HarmonyToken, TokenNamespace }
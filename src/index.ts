@@ -10,6 +10,50 @@ import {
   lighten,
   rgbParser,
 } from "colorus-js"
+import type { ColorFormat, OklabColor, RgbColor } from "./color"
+import { clamp, compositeOver, formatColor, formatOklab, inGamut, parseCssColor, round, srgbFormats } from "./color"
+import type { CssExportOptions, Exporter, ExportEntry } from "./exporters"
+import { toCustomProperty } from "./exporters"
+import type { BuiltinExporterName, ExporterOptions } from "./registry"
+import { builtinExporters } from "./registry"
+import type { TokenValue } from "./aliases"
+import { parseReference, resolveReference } from "./aliases"
+import type {
+  ContrastAuditOptions,
+  ContrastCorrections,
+  ContrastEntry,
+  ContrastPair,
+  ContrastReport,
+  ContrastTarget,
+} from "./contrast"
+import { auditContrast, correctEntries, findContrastPairs } from "./contrast"
+import type { DiffOptions, DiffSide, ThemeDiff } from "./diff"
+import { diffThemes } from "./diff"
+import type { BaseMode, ModeCssOptions, ModeDefinition } from "./modes"
+import { baseMode, resolveModeColors } from "./modes"
+import type { HarmonyOptions, HarmonyRule, HarmonyToken } from "./harmonies"
+import { generateHarmony } from "./harmonies"
+import type { LintOptions, LintReport } from "./lint"
+import { lintTheme } from "./lint"
+import type { ScaleOptions, ScaleStep, ScaleSteps } from "./scales"
+import type { SnapshotMigrations, SnapshotVariant, ThemeSnapshot } from "./snapshot"
+import { hashSnapshot, migrateSnapshot, snapshotMigrations, snapshotVersion } from "./snapshot"
+import type { CssVariant } from "./native"
+import { colorMix } from "./native"
+import type { ThemeVars, VarsOptions } from "./vars"
+import type { VisionCheckOptions, VisionDeficiency, VisionPair, VisionReport } from "./vision"
+import { checkVision, findVisionPairs, simulateDeficiency } from "./vision"
+import { cssVars } from "./vars"
+import { generateScale } from "./scales"
+import type { TokenMetadata } from "./dtcg"
+import type { DesignTokens, TokenSerializers, TokenUnits } from "./tokens"
+import { serializeTokens } from "./tokens"
+import type { ThemeRuntimeOptions, ThemeRuntimeThemes } from "./runtime"
+import { themeBootstrapScript, ThemeRuntime } from "./runtime"
+import type { TailwindOptions, TailwindPreset } from "./tailwind"
+import { tailwindColors } from "./tailwind"
+import type { ValidationOptions, ValidationResult } from "./validation"
+import { parseJson, ThemeValidationError, validateColors } from "./validation"
 
 /**
  * Represents the fundamental color context in a design system.
@@ -25,7 +69,8 @@ type TokenName = `${string}.${string}`
 
 /**
  * Supported color value formats that can be processed by the theming system.
- * Includes hex, RGB(A), and HSL(A) formats with proper type definitions.
+ * Includes hex, RGB(A), and HSL(A) formats with proper type definitions, and
+ * the CSS Color 4 `oklch()`, `oklab()`, `lab()`, `lch()` and `color()` syntaxes.
  */
 type ColorValue =
   | `#${string}`
@@ -37,6 +82,12 @@ type ColorValue =
   | `hsva(${number}, ${number}%, ${number}%, ${number})`
   | `cmyk(${number}, ${number}%, ${number}%, ${number}%)`
   | `cmyka(${number}, ${number}%, ${number}%, ${number}%, ${number})`
+  | `oklch(${string})`
+  | `oklab(${string})`
+  | `lab(${string})`
+  | `lch(${string})`
+  | `color(display-p3 ${string})`
+  | `color(srgb ${string})`
 
 /**
  * Formats a token string by replacing dividers, adding prefix/suffix, and
@@ -57,7 +108,7 @@ type FormatToken<
   Suf extends string = "",
   Scope extends string = DefaultColorScope,
 > = Rep extends "."
-  ? InjectSuffix<InjectPrefix<T, Pre>, Suf, Rep, Scope>
+  ? InjectSuffix<InjectPrefix<T, Pre>, Suf, Rep, Del, Scope>
   : Del extends ""
     ? Del extends Rep
       ? InjectSuffix<InjectPrefix<T, Pre>, Suf, Rep, Del, Scope>
@@ -106,6 +157,8 @@ const defaultPlugins = {
   darken,
 } as const
 
+const defaultParsers = [hexParser, rgbParser, hslParser, hsvParser, cmykParser]
+
 type BasePlugins = typeof defaultPlugins
 type AnyPlugins = Record<string, Dye.PluginFunction>
 type BuiltinVariants = "lighter" | "darker"
@@ -125,6 +178,199 @@ const defaultVariants: VariantFactory<BuiltinVariants> = {
   darker: (c) => c.darken(0.12),
 }
 
+/**
+ * CSS expressions of the built-in variants, close to their precomputed colors
+ */
+const defaultVariantsCss: Record<BuiltinVariants, CssVariant> = {
+  lighter: colorMix("white", 12),
+  darker: colorMix("black", 12),
+}
+
+/**
+ * Object form of a variant, controlling which tokens it applies to.
+ *
+ * @template P - The plugins available to the color instance
+ * @template TKey - The theme token names
+ *
+ * @example
+ * ```ts
+ * const darker: VariantDefinition = {
+ *   scope: ["bg", "background"],
+ *   exclude: ["surface.bg"],
+ *   fn: (c) => c.darken(0.2),
+ * }
+ * ```
+ */
+type VariantDefinition<P extends AnyPlugins = BasePlugins, TKey extends string = TokenName> = VariantTargets<TKey> & {
+  /** Transformation producing the variant */
+  fn: VariantFn<P>
+  /** CSS expression of the variant, for stylesheets computing variants natively */
+  css?: CssVariant
+}
+
+/**
+ * Translucent overlay composited over a token, Material-style, to build
+ * interaction states such as hover, pressed, focus or disabled.
+ *
+ * @template TKey - The theme token names
+ *
+ * @example
+ * ```ts
+ * const hover: StateLayer = { opacity: 0.08 } // The paired foreground at 8% over the token
+ * const disabled: StateLayer = { color: "{text.fg}", opacity: 0.38, flatten: false }
+ * ```
+ */
+type StateLayer<TKey extends string = TokenName> = {
+  /** Color of the layer, a token reference or a CSS color (default: the foreground paired with the token) */
+  color?: `{${TKey}}` | ColorValue
+  /** Opacity of the layer, from 0 to 1 */
+  opacity: number
+  /** Composite the layer into an opaque color, or output the translucent layer itself (default true) */
+  flatten?: boolean
+}
+
+/**
+ * Object form of a variant built from a state layer over the token.
+ *
+ * @template TKey - The theme token names
+ *
+ * @example
+ * ```ts
+ * const pressed: StateLayerDefinition = { scope: ["bg"], layer: { opacity: 0.12 } }
+ * ```
+ */
+type StateLayerDefinition<TKey extends string = TokenName> = VariantTargets<TKey> & {
+  /** State layer producing the variant */
+  layer: StateLayer<TKey>
+}
+
+/**
+ * Tokens targeted by a variant in its object form.
+ *
+ * @template TKey - The theme token names
+ */
+type VariantTargets<TKey extends string = TokenName> = {
+  /** Token scopes the variant applies to, "*" for every token (default: the manager `scope`) */
+  scope?: readonly string[]
+  /** Tokens receiving the variant regardless of their scope */
+  include?: readonly TKey[]
+  /** Tokens never receiving the variant */
+  exclude?: readonly TKey[]
+}
+
+/**
+ * A variant, either as a bare transformation applied to scoped tokens, in
+ * its object form, or as a state layer.
+ */
+type VariantConfig<P extends AnyPlugins = BasePlugins, TKey extends string = TokenName> =
+  VariantFn<P> | VariantDefinition<P, TKey> | StateLayerDefinition<TKey>
+
+/**
+ * Variants keyed by name, in bare or object form.
+ */
+type VariantsConfig<K extends string, P extends AnyPlugins = BasePlugins, TKey extends string = TokenName> = Record<
+  K,
+  VariantConfig<P, TKey>
+>
+
+/**
+ * Whether a variant configuration targets a token through its scopes.
+ */
+type VariantInScope<T extends string, Config, Scope extends string> = Config extends {
+  scope: readonly (infer S extends string)[]
+}
+  ? "*" extends S
+    ? true
+    : T extends `${string}.${S}`
+      ? true
+      : false
+  : T extends `${string}.${Scope}`
+    ? true
+    : false
+
+/**
+ * Whether a variant configuration applies to a token, honouring its
+ * `include` and `exclude` lists.
+ */
+type VariantApplies<T extends string, Config, Scope extends string> = Config extends {
+  exclude: readonly (infer E)[]
+}
+  ? T extends E
+    ? false
+    : VariantApplies<T, Omit<Config, "exclude">, Scope>
+  : Config extends { include: readonly (infer I)[] }
+    ? T extends I
+      ? true
+      : VariantInScope<T, Config, Scope>
+    : VariantInScope<T, Config, Scope>
+
+/**
+ * Resolves the names of the variants that apply to a token.
+ *
+ * @template T - The token name
+ * @template TVariants - Variants configuration
+ * @template Scope - Default scopes of bare variants
+ * @template Skip - Tokens generated without any variant
+ */
+type TokenVariants<T extends string, TVariants, Scope extends string, Skip extends string = never> = T extends Skip
+  ? never
+  : {
+      // Picking the keys materializes configurations inferred through the constructor mapped type
+      [V in keyof TVariants & string]: VariantApplies<T, Pick<TVariants[V], keyof TVariants[V]>, Scope> extends true
+        ? V
+        : never
+    }[keyof TVariants & string]
+
+/**
+ * Formats every token into its output key, along with the keys of the
+ * variants that apply to it.
+ *
+ * @template TKey - The token names
+ * @template Rep - Replacement for the "." divider
+ * @template Pre - Prefix to add
+ * @template TVariants - Variants configuration
+ * @template Scope - Default scopes of bare variants
+ * @template Skip - Tokens generated without any variant
+ * @template Only - Variants generated, all by default
+ */
+type SchemaKey<
+  TKey extends string,
+  Rep extends string,
+  Pre extends string,
+  TVariants,
+  Scope extends string,
+  Skip extends string = never,
+  Only extends string = string,
+> = {
+  [T in TKey]: [Extract<TokenVariants<T, TVariants, Scope, Skip>, Only>] extends [never]
+    ? FormatToken<T, ".", Rep, Pre, "", Scope>
+    : FormatToken<T, ".", Rep, Pre, Extract<TokenVariants<T, TVariants, Scope, Skip>, Only>, string>
+}[TKey]
+
+/**
+ * Variants generated by a single call: all of them, none, or the listed ones.
+ */
+type VariantSelection = boolean | readonly string[]
+
+/**
+ * Options for a single `generateTheme()` call.
+ *
+ * @template K - The variant names
+ */
+type GenerateOptions<K extends string = string> = {
+  /** Variants to generate, `false` for none (default true) */
+  variants?: boolean | readonly K[]
+}
+
+/**
+ * Resolves the variants selected by `generateTheme()` options.
+ */
+type SelectedVariants<TOptions, K extends string> = TOptions extends { variants: false }
+  ? never
+  : TOptions extends { variants: readonly (infer V extends string)[] }
+    ? V
+    : K
+
 /**
  * Color serializer function type. Used to generate standardized colors
  *
@@ -141,14 +387,117 @@ const defaultVariants: VariantFactory<BuiltinVariants> = {
  * const cssColorSerializer: ColorSerializer<BasePlugins, string> =
  *   (c, token) => `var(${token})`;
  * ```
+ *
+ * The third argument is the original color of CSS Color 4 values
+ * (`oklch()`, `color(display-p3 ...)`), before `c` is mapped to sRGB.
  */
 type ColorSerializer<P extends AnyPlugins = BasePlugins, R extends Colors.Any | string = Colors.Rgb> = (
   c: Dye.Instance<P>,
   token: string,
+  source?: OklabColor,
 ) => R
 
 const defaultColorSerializer: ColorSerializer = (c) => c.rgb
 
+/**
+ * Serializers writing wide gamut colors as is, without mapping them to sRGB.
+ */
+const wideGamutSerializers = new WeakSet<object>()
+
+/**
+ * Creates a serializer writing colors as CSS strings in the given syntax.
+ * Wide gamut syntaxes (`oklch`, `p3`, ...) keep CSS Color 4 values outside of
+ * sRGB, as {@link ThemeManager.export} does.
+ *
+ * @example
+ * ```ts
+ * const theme = new ThemeManager({
+ *   colors: { "button.bg": "#3366ff" },
+ *   output: { serializer: formatSerializer("oklch") },
+ * })
+ * theme.generateTheme()["button.bg"] // "oklch(54.47% 0.2245 265.7)"
+ * ```
+ */
+const formatSerializer = (format: ColorFormat): ColorSerializer<AnyPlugins, string> => {
+  if (srgbFormats.includes(format)) {
+    return (c) => formatColor(c.rgb, format)
+  }
+  const serializer: ColorSerializer<AnyPlugins, string> = (c, _token, source) =>
+    source ? formatOklab(source, format) : formatColor(c.rgb, format)
+  wideGamutSerializers.add(serializer)
+  return serializer
+}
+
+/**
+ * Whether two serialized colors are equal, comparing object colors by their channels.
+ */
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b ||
+  (typeof a === "object" &&
+    typeof b === "object" &&
+    !!a &&
+    !!b &&
+    Object.keys(a).length === Object.keys(b).length &&
+    Object.entries(a).every(([key, value]) => sameValue(value, (b as Record<string, unknown>)[key])))
+
+/**
+ * A single generated color, before serialization, along with the token and
+ * variant it comes from.
+ */
+type CompiledEntry<P extends AnyPlugins> = {
+  key: string
+  token: string
+  variant?: string
+  reference?: string
+  color: Dye.Instance<P>
+  /** Original color of CSS Color 4 values, possibly out of the sRGB gamut of `color` */
+  source?: OklabColor
+}
+
+/**
+ * Compiled entries of a token and its variants, along with their serialized
+ * values.
+ */
+type CompiledToken<P extends AnyPlugins, V> = {
+  entries: CompiledEntry<P>[]
+  schema: Record<string, V>
+}
+
+/**
+ * Change of a single generated key, notified to the subscribers of a theme
+ * manager when its colors are updated.
+ *
+ * @template TValue - Serialized color values
+ *
+ * @example
+ * ```ts
+ * const change: TokenChange<string> = { key: "--button-bg-lighter", before: "#5c85ff", after: "#e8476b" }
+ * ```
+ */
+type TokenChange<TValue = Colors.Rgb> = {
+  /** Formatted key, as produced by `generateTheme()` */
+  key: string
+  /** Value before the update, absent for keys that were not generated */
+  before?: TValue
+  /** Value after the update, absent for keys that are no longer generated */
+  after?: TValue
+}
+
+/**
+ * Options shared by every exporter when rendering a theme.
+ *
+ * @template TKey - The theme token names
+ * @template TModes - Names of the declared modes
+ */
+type ThemeExportOptions<TKey extends TokenName = TokenName, TModes extends string = string> = {
+  /** Color syntax used for the exported values (default "hex") */
+  format?: ColorFormat
+  /** Mode whose colors are exported (default "base") */
+  mode?: TModes | BaseMode
+  /** Color overrides applied on top of the base or mode colors */
+  colors?: { [key in TKey]?: TokenValue<TKey> }
+}
+
 /**
  * Logger interface for the theming system.
  *
@@ -165,15 +514,114 @@ const defaultColorSerializer: ColorSerializer = (c) => c.rgb
  *   warn: () => {},
  *   error: () => {}
  * }
+ *
+ * // Logger also receiving informational messages (e.g. contrast corrections)
+ * const verboseLogger: Logger = { ...console }
  * ```
  */
-type Logger = typeof consoleLogger
+type Logger = typeof consoleLogger & {
+  /** Informational messages, never escalated in strict mode (default `warn`, unescalated) */
+  info?: (message: string) => void
+}
 
 const consoleLogger = {
   warn: (message: string) => console.warn(message),
   error: (message: string) => console.error(message),
 }
 
+const defaultLogger: Logger = { ...consoleLogger, info: (message: string) => console.info(message) }
+
+/**
+ * Options of a theme manager, as given to its constructor. Without type
+ * arguments, any options, e.g. read from a configuration file.
+ *
+ * @template TKey - The theme token names
+ * @template TPrefix - Prefix of the generated keys
+ * @template TDivider - Divider of the generated keys
+ * @template TScopedColorToken - Scopes receiving the variants
+ * @template TPlugins - Color manipulation plugins
+ * @template TVariantsKeys - Names of the variants
+ * @template TColorValue - Serialized color values
+ * @template TVariants - Variants configuration
+ * @template TModes - Names of the declared modes
+ * @template TSkipVariants - Tokens generated without any variant
+ * @template TDesignKey - Non-color design tokens
+ */
+type ThemeManagerOptions<
+  TKey extends TokenName = TokenName,
+  TPrefix extends string = string,
+  TDivider extends string = string,
+  TScopedColorToken extends string = string,
+  TPlugins extends Dye.Plugins = Dye.Plugins,
+  TVariantsKeys extends string = string,
+  TColorValue extends Colors.Any | string = Colors.Any | string,
+  TVariants = VariantsConfig<TVariantsKeys, TPlugins, TKey>,
+  TModes extends string = string,
+  TSkipVariants extends TKey = TKey,
+  TDesignKey extends TokenName = TokenName,
+> = {
+  logger?: Logger
+  strict?: boolean
+  scope?: Array<TScopedColorToken>
+  plugins?: Partial<BasePlugins> | Partial<TPlugins>
+  // The mapped type infers each variant configuration, the record their names even when every
+  // configuration is context sensitive, without competing for the contextual type of `fn`
+  variants?: { [V in keyof TVariants]: TVariants[V] } & Record<TVariantsKeys, VariantTargets<NoInfer<TKey>> | object>
+  skipVariants?: readonly TSkipVariants[]
+  colors: { [key in TKey]: TokenValue<NoInfer<TKey>> }
+  modes?: { [mode in TModes]: ModeDefinition<TKey, NoInfer<TModes>> }
+  pairs?: Array<ContrastPair<NoInfer<TKey>>>
+  correctContrast?: boolean | ContrastTarget
+  exporters?: Record<string, Exporter<any>>
+  metadata?: { [key in TKey]?: TokenMetadata }
+  output?: { prefix?: TPrefix; divider?: TDivider; serializer?: ColorSerializer<TPlugins, TColorValue> }
+  tokens?: DesignTokens<TDesignKey>
+  units?: TokenUnits
+  tokenSerializers?: TokenSerializers
+}
+
+/**
+ * A theme manager in the lineage of a derived theme, whatever its tokens and
+ * settings: compared by identity, snapshotted, or walked up further.
+ */
+type ThemeOrigin = {
+  origin(token: string): ThemeOrigin | undefined
+  toJSON(): ThemeSnapshot
+}
+
+/**
+ * Theme manager restored from a snapshot. Tokens keep their names, while the
+ * prefix, divider, scopes, variant names, modes and design tokens are only
+ * known at runtime, so they are typed as strings.
+ *
+ * @template TKey - The theme token names
+ * @template TPlugins - Color manipulation plugins supplied on load
+ * @template TColorValue - Serialized color values
+ */
+type SnapshotTheme<
+  TKey extends TokenName = TokenName,
+  TPlugins extends Dye.Plugins = Dye.Plugins,
+  TColorValue extends Colors.Any | string = Colors.Rgb,
+> = ThemeManager<
+  TKey,
+  string,
+  string,
+  string,
+  BasePlugins & TPlugins,
+  string,
+  TColorValue,
+  VariantsConfig<string, BasePlugins & TPlugins, TKey>,
+  ColorSerializer<BasePlugins & TPlugins, TColorValue>,
+  string,
+  TKey,
+  TokenName
+>
+
+/**
+ * A theme to compare: any theme manager, or a schema it generated.
+ */
+type DiffTheme = { generateTheme: (...args: never[]) => unknown } | Record<string, unknown>
+
 /**
  * A modern, type-safe theming system that orchestrates colors, variants,
  * and tokens to create cohesive design themes. It handles transformations,
@@ -188,6 +636,9 @@ const consoleLogger = {
  * @template TVariants Color variants and their transformations
  * @template TColorSerializer Color serializer for output format
  * @template TScopedColorToken Scoped color tokens (e.g., "bg", "fg")
+ * @template TModes Names of the declared modes (e.g., "dark", "high-contrast")
+ * @template TSkipVariants Tokens generated without any variant
+ * @template TDesignKey Non-color design tokens (e.g., "space.md", "shadow.card")
  */
 class ThemeManager<
   TKey extends TokenName = TokenName,
@@ -197,18 +648,50 @@ class ThemeManager<
   TPlugins extends Dye.Plugins = Dye.Plugins,
   TVariantsKeys extends string = BuiltinVariants,
   TColorValue extends Colors.Any | string = Colors.Rgb,
-  TVariants extends VariantFactory<TVariantsKeys, TPlugins> = VariantFactory<TVariantsKeys, TPlugins>,
+  const TVariants extends VariantsConfig<string, TPlugins, TKey> = VariantsConfig<TVariantsKeys, TPlugins, TKey>,
   TColorSerializer extends ColorSerializer<TPlugins, TColorValue> = ColorSerializer<TPlugins, TColorValue>,
+  TModes extends string = never,
+  const TSkipVariants extends TKey = never,
+  const TDesignKey extends TokenName = never,
 > extends Colorus<BasePlugins | TPlugins> {
   private readonly tokens: Set<TKey>
-  private readonly colors: Record<TKey, ColorValue>
+  private readonly colors: Record<TKey, TokenValue<TKey>>
   private readonly variants: TVariants
   private readonly colorSerializer: TColorSerializer
   private readonly colorScope: Array<TScopedColorToken>
   private readonly prefix: TPrefix
   private readonly divider: TDivider
   private readonly logger: Logger
-  private baseColorSchema?: Record<string, TColorValue>
+  private readonly strict: boolean
+  private readonly exporters: Record<string, Exporter<any>>
+  private readonly modes: Record<string, ModeDefinition<TKey, TModes>>
+  private readonly pairs: Array<ContrastPair<TKey>>
+  private readonly contrastTarget?: ContrastTarget
+  private readonly skipVariants: Set<TKey>
+  private readonly metadata: { [key in TKey]?: TokenMetadata }
+  private readonly designTokens: DesignTokens<TDesignKey>
+  private readonly units: TokenUnits
+  private readonly tokenSerializers: TokenSerializers
+  private readonly definition: ThemeManagerOptions<
+    TKey,
+    TPrefix,
+    TDivider,
+    TScopedColorToken,
+    TPlugins,
+    TVariantsKeys,
+    TColorValue,
+    TVariants,
+    TModes,
+    TSkipVariants,
+    TDesignKey
+  >
+  private parent?: ThemeOrigin
+  private overrides?: Set<string>
+  private readonly memo = new Map<TKey, CompiledToken<BasePlugins & TPlugins, TColorValue>>()
+  private readonly corrections: ContrastCorrections = new Map()
+  private memoizedTheme?: Record<string, TColorValue>
+  private memoizedVars?: ThemeVars<SchemaKey<TKey, ".", "", TVariants, TScopedColorToken, TSkipVariants> | TDesignKey>
+  private readonly listeners = new Set<(changes: TokenChange<TColorValue>[]) => void>()
 
   /**
    * Creates a new ThemeManager instance.
@@ -244,30 +727,62 @@ class ThemeManager<
    *   }
    * });
    * // Now you get "accent-primary-vibrant" automatically!
+   *
+   * // Variants targeting specific tokens
+   * const themeScoped = new ThemeManager({
+   *   colors: { "button.bg": "#3366ff", "button.shadow": "#99aabb", "card.bg": "#ffffff" },
+   *   variants: {
+   *     darker: { scope: ["bg"], exclude: ["card.bg"], fn: c => c.darken(0.2) },
+   *     faded: { scope: [], include: ["button.shadow"], fn: c => c.lighten(0.4) }
+   *   }
+   * });
+   * // Only "button.bg.darker" and "button.shadow.faded" are generated
    * ```
    */
-  constructor(options: {
-    logger?: Logger
-    strict?: boolean
-    scope?: Array<TScopedColorToken>
-    plugins?: Partial<BasePlugins> | Partial<TPlugins>
-    variants?: Record<TVariantsKeys, VariantFn<TPlugins>>
-    colors: { [key in TKey]: ColorValue }
-    output?: { prefix?: TPrefix; divider?: TDivider; serializer?: ColorSerializer<TPlugins, TColorValue> }
-  }) {
+  constructor(
+    options: ThemeManagerOptions<
+      TKey,
+      TPrefix,
+      TDivider,
+      TScopedColorToken,
+      TPlugins,
+      TVariantsKeys,
+      TColorValue,
+      TVariants,
+      TModes,
+      TSkipVariants,
+      TDesignKey
+    >,
+  ) {
     const { colors, output, strict } = options
     super({
       plugins: { ...defaultPlugins, ...options.plugins } as BasePlugins & TPlugins,
-      parsers: [hexParser, rgbParser, hslParser, hsvParser, cmykParser],
+      parsers: defaultParsers,
     })
     this.tokens = new Set(Object.keys(colors)) as Set<TKey>
-    this.colors = colors
+    this.colors = { ...colors }
     this.colorScope = options.scope || (["bg", "fg", "foreground", "background"] as Array<TScopedColorToken>)
     this.colorSerializer = (options.output?.serializer || defaultColorSerializer) as TColorSerializer
     this.variants = (options.variants || defaultVariants) as unknown as TVariants
     this.prefix = output?.prefix || ("" as TPrefix)
     this.divider = output?.divider || ("." as TDivider)
-    this.logger = ThemeManager.createLogger(options.logger || consoleLogger, strict || false)
+    this.strict = strict || false
+    this.logger = ThemeManager.createLogger(options.logger || defaultLogger, this.strict)
+    this.exporters = { ...builtinExporters, ...options.exporters }
+    this.modes = { ...options.modes } as Record<TModes, ModeDefinition<TKey, TModes>>
+    this.pairs = options.pairs || []
+    this.contrastTarget = options.correctContrast === true ? {} : options.correctContrast || undefined
+    this.skipVariants = new Set(options.skipVariants)
+    this.metadata = { ...options.metadata }
+    this.designTokens = { ...options.tokens }
+    this.units = { ...options.units }
+    this.tokenSerializers = { ...options.tokenSerializers }
+    this.definition = options
+
+    if (baseMode in this.modes) {
+      this.logger.warn(`Mode ${baseMode} is reserved for the base colors. Skipping...`)
+      delete this.modes[baseMode]
+    }
   }
 
   static createLogger(logger: Logger, strict: boolean) {
@@ -275,7 +790,8 @@ class ThemeManager<
       return logger
     }
 
-    const res = {} as Logger
+    // Without `info`, informational messages fall back on the original `warn`
+    const res = { info: logger.info ?? logger.warn } as Logger
     for (const [key, _] of Object.entries(consoleLogger)) {
       res[key as unknown as keyof Logger] = (message: string) => {
         throw new Error(`[Theme-Manager]: ${message.replace("Skipping...", "")}`)
@@ -285,165 +801,1706 @@ class ThemeManager<
   }
 
   /**
-   * Builds the complete color schema by processing all input colors,
-   * applying transformations, and generating variants.
+   * Generates a tonal scale from a seed color, as tokens named after the
+   * scale and its steps. Spread the result into the `colors` option to register
+   * the steps as ordinary tokens, receiving variants, serializers and exporters.
    *
-   * @param colors - Raw color definitions
-   * @returns Complete schema with processed colors and variants
-   * @private
+   * @param name - Namespace of the generated tokens (e.g. "brand")
+   * @param seed - Color giving its hue and chroma to the scale
+   * @param options - Layout, lightness curve and chroma falloff
+   * @returns The hex color of every step, keyed by token
+   *
+   * @example
+   * ```typescript
+   * const theme = new ThemeManager({
+   *   colors: {
+   *     ...ThemeManager.createScale("brand", "#3366ff"),
+   *     "button.bg": "{brand.500}",
+   *   },
+   * });
+   * // "brand.50" | "brand.100" | ... | "brand.950" | "button.bg"
+   * ```
    */
-  generateTheme<
-    SVariantsKeys extends string = TVariantsKeys,
-    TFormattedKey extends FormatToken<TKey, ".", TDivider, TPrefix, SVariantsKeys, TScopedColorToken> = FormatToken<
-      TKey,
-      ".",
-      TDivider,
-      TPrefix,
-      SVariantsKeys,
-      TScopedColorToken
-    >,
-  >(colors?: {
-    [key in TKey]?: ColorValue
-  }): Record<TFormattedKey, TColorValue> {
-    // If no colors are provided and a base color schema exists, return it
-    // This allows for reusing the schema without regenerating it
-    if (!colors && this.baseColorSchema) {
-      return this.baseColorSchema as Record<TFormattedKey, TColorValue>
-    }
-
-    // Initialize core dependencies
-    const ColorSerializer = this.colorSerializer
-    const variants = this.variants!
-    const tokens = this.tokens
-
-    // Determine which color set to use
-    const schemaColors = colors || (this.colors as Record<TKey, ColorValue>)
-    const colorKeys = Object.keys(schemaColors) as TKey[]
-
-    // Initialize the result schema
-    let schema = {} as Record<TFormattedKey, TColorValue>
-
-    // Process each color token
-    for (const token of colorKeys) {
-      // Validate token exists in registry
-      if (!tokens.has(token as TKey)) {
-        this.logger.warn(`Token ${String(token)} is not in the registry. Skipping...`)
-        continue
-      }
-
-      const colorValue = schemaColors[token as TKey] as ColorValue
+  static createScale<const TName extends string, const TSteps extends ScaleSteps = "tailwind">(
+    name: TName,
+    seed: ColorValue,
+    options?: ScaleOptions<TSteps>,
+  ): Record<`${TName}.${ScaleStep<TSteps>}`, ColorValue> {
+    const source = parseCssColor(seed)
+    const color = new Colorus({ plugins: defaultPlugins, parsers: defaultParsers }).dye(
+      source ? formatOklab(source, "rgb") : seed,
+    )
+    if (!color.source.isValid) {
+      throw new Error(`[Theme-Manager]: Scale ${name} has an invalid seed ${seed}.`)
+    }
 
-      // Skip tokens without valid color values
-      if (!colorValue) {
-        this.logger.warn(`Token ${String(token)} has no color. Skipping...`)
-        continue
-      }
+    const scale = {} as Record<string, ColorValue>
+    for (const { step, color: stepColor } of generateScale(color.rgb, options)) {
+      scale[`${name}.${step}`] = formatColor(stepColor) as ColorValue
+    }
+    return scale
+  }
 
-      // Process base color
-      const processedColor = this.dye(colorValue) as Dye.Instance<BasePlugins & TPlugins>
-      if (processedColor) {
-        // Format token name with prefix and dividers
-        const formattedKey = `${this.prefix}${token.replace(/\./g, this.divider)}` as TFormattedKey
-        schema[formattedKey] = ColorSerializer(processedColor, token) as TColorValue
-      }
+  /**
+   * Generates the colors related to a base token by harmony rules, as tokens
+   * next to it. Hues are rotated in OKLCH so the harmonies keep the lightness
+   * of the base. Spread the result into the `colors` option to register the
+   * base and its harmonies as ordinary tokens.
+   *
+   * @param token - Base token, whose namespace the harmonies share (e.g. "accent.primary")
+   * @param seed - Color of the base token
+   * @param rules - Harmony rule or rules: complementary, triadic, analogous, split-complementary
+   * @param options - Angle of analogous and split complementary colors
+   * @returns The hex color of the base and of every harmony, keyed by token
+   *
+   * @example
+   * ```typescript
+   * const theme = new ThemeManager({
+   *   colors: {
+   *     ...ThemeManager.createHarmony("accent.primary", "#3366ff", ["complementary", "triadic"]),
+   *     "button.bg": "{accent.complement}",
+   *   },
+   * });
+   * // "accent.primary" | "accent.complement" | "accent.triad-1" | "accent.triad-2" | "button.bg"
+   * ```
+   */
+  static createHarmony<const TToken extends TokenName, const TRule extends HarmonyRule>(
+    token: TToken,
+    seed: ColorValue,
+    rules: TRule | readonly TRule[],
+    options?: HarmonyOptions,
+  ): Record<TToken | HarmonyToken<TToken, TRule>, ColorValue> {
+    const source = parseCssColor(seed)
+    const color = new Colorus({ plugins: defaultPlugins, parsers: defaultParsers }).dye(
+      source ? formatOklab(source, "rgb") : seed,
+    )
+    if (!color.source.isValid) {
+      throw new Error(`[Theme-Manager]: Harmony ${token} has an invalid seed ${seed}.`)
+    }
 
-      // Process variants for fg/bg tokens
-      const isColorScopedToken = this.colorScope.some((scope) => token.endsWith(`.${scope}`))
-      if (isColorScopedToken && processedColor) {
-        this.appendVariants(token, processedColor, variants, ColorSerializer, schema)
-      }
+    const namespace = token.slice(0, token.lastIndexOf("."))
+    const harmony = { [token]: seed } as Record<string, ColorValue>
+    for (const { name, color: harmonyColor } of generateHarmony(color.rgb, rules, options)) {
+      harmony[`${namespace}.${name}`] = formatColor(harmonyColor) as ColorValue
     }
+    return harmony
+  }
 
-    // If a base color schema is provided, use it to merge with the generated schema
-    if (this.baseColorSchema) {
-      schema = { ...this.baseColorSchema, ...schema } as Record<TFormattedKey, TColorValue>
+  /**
+   * Derives a new theme manager from this one. Colors, variants, plugins and
+   * output settings are merged over the inherited ones, and every other option
+   * is inherited as is. The derived manager has its own schema cache, so
+   * neither theme affects what the other generates, and can be extended in
+   * turn.
+   *
+   * @param options - Colors, variants, plugins and output settings to add or replace
+   * @returns A new theme manager, typed with the merged tokens and variants
+   *
+   * @example
+   * ```ts
+   * const brandA = new ThemeManager({ colors: { "button.bg": "#3366ff", "text.fg": "#333333" } })
+   * const brandB = brandA.extend({
+   *   colors: { "button.bg": "#e11d48", "link.fg": "#0000ee" },
+   *   variants: { faded: { scope: ["fg"], fn: (c) => c.lighten(0.3) } },
+   * })
+   * brandB.generateTheme() // { "button.bg": ..., "text.fg": ..., "link.fg": ..., "link.fg.faded": ..., ... }
+   * brandB.origin("text.fg") === brandA // true
+   * ```
+   */
+  extend<
+    const TExtendedKey extends TokenName = never,
+    TExtendedPrefix extends string = TPrefix,
+    TExtendedDivider extends string = TDivider,
+    TExtendedPlugins extends Dye.Plugins = Record<never, never>,
+    TExtendedVariantsKeys extends string = never,
+    const TExtendedVariants extends VariantsConfig<
+      string,
+      BasePlugins & TPlugins & TExtendedPlugins,
+      TKey | TExtendedKey
+    > = Record<never, never>,
+    TExtendedColorValue extends Colors.Any | string = TColorValue,
+  >(options: {
+    colors?: { [key in TExtendedKey]: TokenValue<TKey | NoInfer<TExtendedKey>> }
+    variants?: { [V in keyof TExtendedVariants]: TExtendedVariants[V] } & Record<
+      TExtendedVariantsKeys,
+      VariantTargets<NoInfer<TKey | TExtendedKey>> | object
+    >
+    plugins?: Partial<TExtendedPlugins>
+    output?: {
+      prefix?: TExtendedPrefix
+      divider?: TExtendedDivider
+      serializer?: ColorSerializer<TPlugins & TExtendedPlugins, TExtendedColorValue>
     }
+  }): ThemeManager<
+    TKey | TExtendedKey,
+    TExtendedPrefix,
+    TExtendedDivider,
+    TScopedColorToken,
+    TPlugins & TExtendedPlugins,
+    TVariantsKeys | TExtendedVariantsKeys,
+    TExtendedColorValue,
+    Omit<TVariants, keyof TExtendedVariants> & TExtendedVariants,
+    ColorSerializer<TPlugins & TExtendedPlugins, TExtendedColorValue>,
+    TModes,
+    TSkipVariants,
+    TDesignKey
+  > {
+    // Options keyed by the parent tokens hold for their superset, and output settings left out keep the
+    // inherited ones, the defaults of their type parameters: neither can be expressed through mapped types
+    type ChildOptions = ThemeManagerOptions<
+      TKey | TExtendedKey,
+      TExtendedPrefix,
+      TExtendedDivider,
+      TScopedColorToken,
+      TPlugins & TExtendedPlugins,
+      TVariantsKeys | TExtendedVariantsKeys,
+      TExtendedColorValue,
+      Omit<TVariants, keyof TExtendedVariants> & TExtendedVariants,
+      TModes,
+      TSkipVariants,
+      TDesignKey
+    >
+    const definition = this.definition as ChildOptions
+    const child = new ThemeManager<
+      TKey | TExtendedKey,
+      TExtendedPrefix,
+      TExtendedDivider,
+      TScopedColorToken,
+      TPlugins & TExtendedPlugins,
+      TVariantsKeys | TExtendedVariantsKeys,
+      TExtendedColorValue,
+      Omit<TVariants, keyof TExtendedVariants> & TExtendedVariants,
+      ColorSerializer<TPlugins & TExtendedPlugins, TExtendedColorValue>,
+      TModes,
+      TSkipVariants,
+      TDesignKey
+    >({
+      ...definition,
+      // Declared colors, then their updates through `set()`, then the added ones
+      colors: { ...definition.colors, ...this.colors, ...options.colors },
+      variants: Object.assign({}, this.variants, options.variants),
+      plugins: { ...definition.plugins, ...options.plugins },
+      output: { ...definition.output, ...options.output },
+      exporters: this.exporters,
+    })
+    child.parent = this
+    child.overrides = new Set(Object.keys(options.colors ?? {}))
+    return child
+  }
+
+  /**
+   * Derives a new theme manager replacing the colors of registered tokens.
+   * Shorthand for {@link ThemeManager.extend} with colors only.
+   *
+   * @param colors - New values of registered tokens
+   * @returns A new theme manager with the same tokens and settings
+   *
+   * @example
+   * ```ts
+   * const highContrast = theme.override({ "text.fg": "#000000" })
+   * ```
+   */
+  override(colors: { [key in TKey]?: TokenValue<TKey> }): this {
+    return this.extend({ colors: colors as { [key in TKey]: TokenValue<TKey> } }) as unknown as this
+  }
 
-    // Cache the schema if this is the first build with no custom colors
-    if (!colors && !this.baseColorSchema) {
-      this.baseColorSchema = schema
+  /**
+   * Takes a serializable snapshot of the theme: colors, output settings,
+   * scope, variants, modes and the other data options, along with a format
+   * version and a content hash changing with anything affecting the output.
+   * Transformation variants only keep their targets, their functions being
+   * supplied again to {@link ThemeManager.fromSnapshot}, like the plugins and
+   * the serializer. Called by `JSON.stringify`.
+   *
+   * @returns The snapshot
+   *
+   * @example
+   * ```ts
+   * await db.themes.put({ id: "brand", snapshot: JSON.stringify(theme) })
+   * cache.get(theme.toJSON().hash) // Outputs generated from an identical theme
+   * ```
+   */
+  toJSON(): ThemeSnapshot<TKey> {
+    const content: Omit<ThemeSnapshot<TKey>, "version" | "hash"> = {
+      colors: { ...this.colors },
+      output: { prefix: this.prefix, divider: this.divider },
+      scope: [...this.colorScope],
     }
+    if (this.definition.variants) content.variants = this.snapshotVariants()
+    if (this.skipVariants.size) content.skipVariants = [...this.skipVariants]
+    if (Object.keys(this.modes).length) content.modes = { ...this.modes }
+    if (this.pairs.length) content.pairs = [...this.pairs]
+    if (this.contrastTarget) content.correctContrast = { ...this.contrastTarget }
+    if (Object.keys(this.metadata).length) content.metadata = { ...this.metadata }
+    if (Object.keys(this.designTokens).length) content.tokens = { ...this.designTokens }
+    if (Object.keys(this.units).length) content.units = { ...this.units }
 
-    return schema as unknown as Record<TFormattedKey, TColorValue>
+    return { version: snapshotVersion, hash: hashSnapshot(content), ...content }
   }
 
   /**
-   * Helper method to generate variants for a color token
-   * @private
+   * Creates a theme manager from a snapshot taken by {@link ThemeManager.toJSON},
+   * migrating snapshots taken by older releases first. Options that cannot be
+   * serialized are supplied again: transformation variants, merged over the
+   * stored ones, plugins, serializer, logger and exporters. Snapshots whose
+   * hash no longer matches their content are reported through the logger.
+   *
+   * @param snapshot - Snapshot, possibly taken by an older release
+   * @param options - Unserializable options, and migrations of custom snapshot versions
+   * @returns A theme manager generating the same output as the snapshotted one, typed with the
+   * snapshot tokens and the settings only known at runtime widened to strings (see {@link SnapshotTheme})
+   * @throws When the snapshot cannot be migrated to the current version
+   *
+   * @example
+   * ```ts
+   * const theme = ThemeManager.fromSnapshot(JSON.parse(row.snapshot), {
+   *   variants: { muted: (c) => c.darken(0.2) },
+   *   plugins: { toHex },
+   *   serializer: (c) => c.toHex(),
+   * })
+   * ```
    */
-  private appendVariants<
-    TFormattedKey extends string,
-    TPluginsType extends Dye.Plugins,
-    VVariantsKeys extends string = TVariantsKeys,
+  static fromSnapshot<
+    const TKey extends TokenName = TokenName,
+    TPlugins extends Dye.Plugins = Dye.Plugins,
+    TColorValue extends Colors.Any | string = Colors.Rgb,
   >(
-    token: string,
-    baseColor: Dye.Instance<TPluginsType>,
-    variants: Record<VVariantsKeys, VariantFn<TPluginsType>>,
-    ColorSerializer: (c: Dye.Instance<TPluginsType>, token: string) => any,
-    schema: Record<TFormattedKey, any>,
-  ): void {
-    for (const variantKey of Object.keys(variants)) {
-      const transformer = variants[variantKey as keyof typeof variants] as VariantFn<TPluginsType>
-
-      // Apply the variant transformation
-      const variantColor = transformer(baseColor, variantKey)
+    snapshot: ThemeSnapshot<TKey> | Record<string, any>,
+    options: {
+      logger?: Logger
+      strict?: boolean
+      plugins?: Partial<TPlugins>
+      variants?: VariantsConfig<string, BasePlugins & TPlugins, TKey>
+      serializer?: ColorSerializer<TPlugins, TColorValue>
+      exporters?: Record<string, Exporter<any>>
+      tokenSerializers?: TokenSerializers
+      migrations?: SnapshotMigrations
+    } = {},
+  ): SnapshotTheme<TKey, TPlugins, TColorValue> {
+    const { migrations, serializer, variants: supplied = {}, ...unserializable } = options
+    const logger = ThemeManager.createLogger(options.logger || defaultLogger, options.strict || false)
+    const migrated = migrateSnapshot<TKey>(snapshot, { ...snapshotMigrations, ...migrations })
+    if (migrated === snapshot && migrated.hash && migrated.hash !== hashSnapshot(migrated)) {
+      logger.warn(`Snapshot hash ${migrated.hash} does not match its content, outputs cached under it are stale.`)
+    }
 
-      // Skip invalid color results
-      if (!variantColor.source.isValid) {
-        this.logger.warn(`Variant ${variantKey} for token ${token} produced invalid color. Skipping...`)
-        continue
+    const { version: _version, hash: _hash, output, variants: stored, ...data } = migrated
+    // Built-in variants only use the base plugins, available on every manager
+    const builtins = defaultVariants as unknown as VariantFactory<BuiltinVariants, BasePlugins & TPlugins>
+    let variants: VariantsConfig<string, BasePlugins & TPlugins, TKey> | undefined
+    if (stored || options.variants) {
+      const restored: VariantsConfig<string, BasePlugins & TPlugins, TKey> = stored ? {} : { ...builtins }
+      for (const [name, variant] of Object.entries(stored ?? {})) {
+        const targets = { scope: variant.scope, include: variant.include, exclude: variant.exclude }
+        const fn = supplied[name] ?? ("builtin" in variant && variant.builtin && builtins[variant.builtin])
+        if (typeof fn === "function") {
+          restored[name] = { ...targets, fn }
+        } else if (!fn && !("layer" in variant)) {
+          logger.warn(`Variant ${name} has no transformation. Skipping...`)
+        } else {
+          restored[name] = fn || variant
+        }
+      }
+      for (const [name, variant] of Object.entries(supplied)) {
+        restored[name] ??= variant
       }
+      variants = restored
+    }
 
-      // Create the formatted variant key: token-variantKey
-      const formattedVariantKey =
-        `${this.prefix}${token.replace(/\./g, this.divider)}${this.divider}${variantKey}` as TFormattedKey
+    return new ThemeManager<
+      TKey,
+      string,
+      string,
+      string,
+      BasePlugins & TPlugins,
+      string,
+      TColorValue,
+      VariantsConfig<string, BasePlugins & TPlugins, TKey>,
+      ColorSerializer<BasePlugins & TPlugins, TColorValue>,
+      string,
+      TKey,
+      TokenName
+    >({
+      ...data,
+      ...unserializable,
+      variants,
+      output: { ...output, serializer },
+    })
+  }
 
-      // Add to schema
-      schema[formattedVariantKey] = ColorSerializer(variantColor, variantKey)
+  /**
+   * Finds the theme manager whose own colors declared the current value of a
+   * token: this one, or the nearest ancestor it was extended from. Aliases are
+   * not followed, the value is the one declared for the token itself.
+   *
+   * @param token - A registered token
+   * @returns The declaring theme manager, or `undefined` for unknown tokens
+   *
+   * @example
+   * ```ts
+   * const child = parent.extend({ colors: { "button.bg": "#e11d48" } })
+   * child.origin("button.bg") === child // true
+   * child.origin("text.fg") === parent // true
+   * ```
+   */
+  origin(token: TKey): ThemeOrigin | undefined {
+    if (!this.tokens.has(token)) {
+      return undefined
     }
+    return !this.parent || this.overrides?.has(token) ? this : this.parent.origin(token)
   }
 
   /**
-   * Parses a JSON string and generates a theme schema. Useful for loading themes from external JSON files.
+   * Builds the complete color schema by processing all input colors,
+   * applying transformations, and generating variants.
    *
-   * @template SVariantsKeys - The variant keys to use for formatting
-   * @template TFormattedKey - The formatted key type
+   * @param colors - Raw color definitions
+   * @param options - Variants to generate for this call, `false` to skip them all
+   * @returns Complete schema with processed colors and variants
+   * @private
+   */
+  generateTheme<
+    SVariantsKeys extends string = TVariantsKeys,
+    const TOptions extends GenerateOptions<TVariantsKeys> = GenerateOptions<TVariantsKeys>,
+    TFormattedKey extends string = SchemaKey<
+      TKey,
+      TDivider,
+      TPrefix,
+      TVariants,
+      TScopedColorToken,
+      TSkipVariants,
+      SelectedVariants<TOptions, SVariantsKeys>
+    >,
+  >(
+    colors?: {
+      [key in TKey]?: TokenValue<TKey>
+    },
+    options?: TOptions,
+  ): Record<TFormattedKey, TColorValue> {
+    const selection = options?.variants ?? true
+
+    // Schemas restricted to some variants are not memoized
+    if (selection !== true) {
+      const schemaColors = { ...this.colors, ...colors }
+      return this.compileSchema(schemaColors, this.colorSerializer, selection) as Record<TFormattedKey, TColorValue>
+    }
+
+    return this.memoizedSchema(colors) as Record<TFormattedKey, TColorValue>
+  }
+
+  /**
+   * Updates the color of a registered token. Only the token, its variants
+   * and the tokens referencing it are recompiled, and every generated key
+   * whose value changed is notified to the subscribers.
+   *
+   * @param token - A registered token
+   * @param value - Its new color or alias
+   * @returns The change of every affected key
+   *
+   * @example
+   * ```ts
+   * theme.set("button.bg", "#e11d48")
+   * // [{ key: "button.bg", before: {...}, after: {...} }, { key: "button.bg.lighter", ... }, { key: "link.fg", ... }]
+   * ```
+   */
+  set(token: TKey, value: TokenValue<TKey>): TokenChange<TColorValue>[] {
+    return this.setMany({ [token]: value } as { [key in TKey]?: TokenValue<TKey> })
+  }
+
+  /**
+   * Updates the colors of several registered tokens at once, notifying the
+   * subscribers a single time. Unknown tokens and empty values are reported
+   * through the logger and skipped.
+   *
+   * @param colors - New colors or aliases of registered tokens
+   * @returns The change of every affected key
+   *
+   * @example
+   * ```ts
+   * theme.setMany({ "button.bg": "#e11d48", "text.fg": "{brand.ink}" })
+   * ```
+   */
+  setMany(colors: { [key in TKey]?: TokenValue<TKey> }): TokenChange<TColorValue>[] {
+    const updated = new Set<string>()
+    for (const [token, value] of Object.entries<TokenValue<TKey> | undefined>(colors)) {
+      if (!this.tokens.has(token as TKey)) {
+        this.logger.warn(`Token ${token} is not in the registry. Skipping...`)
+      } else if (!value) {
+        this.logger.warn(`Token ${token} has no color. Skipping...`)
+      } else if (value !== this.colors[token as TKey]) {
+        updated.add(token)
+      }
+    }
+    if (!updated.size) {
+      return []
+    }
+
+    const before = this.memoizedSchema()
+    for (const token of updated) {
+      this.colors[token as TKey] = colors[token as TKey]!
+      // Derived themes now declare the value themselves
+      if (this.parent) this.overrides?.add(token)
+    }
+    this.dependents(updated, this.colors).forEach((token) => this.memo.delete(token as TKey))
+    this.memoizedTheme = undefined
+    this.memoizedVars = undefined
+    const after = this.memoizedSchema()
+
+    const changes: TokenChange<TColorValue>[] = []
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!sameValue(before[key], after[key])) {
+        changes.push({ key, before: before[key], after: after[key] })
+      }
+    }
+    if (changes.length) {
+      this.listeners.forEach((listener) => listener(changes))
+    }
+    return changes
+  }
+
+  /**
+   * Registers a listener called with the changed keys after every update
+   * made through {@link ThemeManager.set} and {@link ThemeManager.setMany}.
+   *
+   * @param listener - Listener receiving the change of every affected key
+   * @returns A function removing the listener
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = theme.subscribe((changes) => {
+   *   for (const { key, after } of changes) style.setProperty(key, after)
+   * })
+   * ```
+   */
+  subscribe(listener: (changes: TokenChange<TColorValue>[]) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Processes every color token and its variants into a flat schema,
+   * using the given serializer for the output values.
+   * @private
+   */
+  private compileSchema<R>(
+    schemaColors: { [key in TKey]?: TokenValue<TKey> },
+    ColorSerializer: (c: Dye.Instance<BasePlugins & TPlugins>, token: string, source?: OklabColor) => R,
+    selection?: VariantSelection,
+  ): Record<string, R> {
+    const schema = {} as Record<string, R>
+    for (const entry of this.compileEntries(schemaColors, selection)) {
+      this.checkGamut(entry, ColorSerializer)
+      schema[entry.key] = ColorSerializer(entry.color, entry.variant ?? entry.token, entry.source)
+    }
+    return schema
+  }
+
+  /**
+   * Processes every color token and its variants into a list of unserialized
+   * entries, keeping track of the token and variant each one comes from.
+   * @private
+   */
+  private compileEntries(
+    schemaColors: { [key in TKey]?: TokenValue<TKey> },
+    selection: VariantSelection = true,
+  ): CompiledEntry<BasePlugins & TPlugins>[] {
+    const tokens = this.tokens
+    const colorKeys = Object.keys(schemaColors) as TKey[]
+    const entries: CompiledEntry<BasePlugins & TPlugins>[] = []
+
+    // Aliases resolve against the base colors, updated with the registered overrides
+    const lookup: Record<string, TokenValue<TKey> | undefined> = { ...this.colors }
+    for (const token of colorKeys.filter((key) => tokens.has(key))) {
+      lookup[token] = schemaColors[token]
+    }
+
+    // Process each color token
+    for (const token of colorKeys) {
+      // Validate token exists in registry
+      if (!tokens.has(token as TKey)) {
+        this.logger.warn(`Token ${String(token)} is not in the registry. Skipping...`)
+        continue
+      }
+
+      entries.push(...this.compileToken(token, lookup, selection))
+    }
+
+    // Fix foregrounds failing the contrast target over their backgrounds
+    if (this.contrastTarget) {
+      this.correctContrast(entries, this.contrastTarget)
+    }
+
+    return entries
+  }
+
+  /**
+   * Processes a single registered token and its variants, resolving aliases
+   * against the given colors.
+   * @private
+   */
+  private compileToken(
+    token: TKey,
+    lookup: Record<string, TokenValue<TKey> | undefined>,
+    selection: VariantSelection = true,
+  ): CompiledEntry<BasePlugins & TPlugins>[] {
+    const entries: CompiledEntry<BasePlugins & TPlugins>[] = []
+
+    // Skip tokens without valid color values
+    if (!lookup[token]) {
+      this.logger.warn(`Token ${String(token)} has no color. Skipping...`)
+      return entries
+    }
+
+    // Follow aliases down to a literal color
+    const resolved = resolveReference(token, lookup, this.logger)
+    if (!resolved) {
+      return entries
+    }
+
+    // Process base color, mapping CSS Color 4 values to the sRGB colors handled by the plugins
+    const source = parseCssColor(resolved.value)
+    const value = source ? (formatOklab(source, "rgb") as ColorValue) : resolved.value
+    const processedColor = this.dye(value) as Dye.Instance<BasePlugins & TPlugins>
+    if (processedColor) {
+      // Format token name with prefix and dividers
+      const reference = resolved.reference && this.formatKey(resolved.reference)
+      entries.push({ key: this.formatKey(token), token, reference, color: processedColor, source })
+
+      // Process the variants targeting this token
+      this.appendVariants(token, processedColor, this.variantsFor(token, selection, lookup), entries)
+    }
+
+    return entries
+  }
+
+  /**
+   * Builds the full schema of the registered colors, updated with the given
+   * overrides. Tokens unaffected by the overrides reuse their memoized
+   * entries, the overridden ones and the tokens referencing them are
+   * recompiled without touching the memo. Without overrides, the schema
+   * itself is memoized.
+   * @private
+   */
+  private memoizedSchema(colors?: { [key in TKey]?: TokenValue<TKey> }): Record<string, TColorValue> {
+    if (!colors) {
+      this.memoizedTheme ??= this.compileMemoizedSchema()
+      return { ...this.memoizedTheme }
+    }
+    return this.compileMemoizedSchema(colors)
+  }
+
+  /**
+   * @private
+   */
+  private compileMemoizedSchema(colors: { [key in TKey]?: TokenValue<TKey> } = {}): Record<string, TColorValue> {
+    const lookup: Record<string, TokenValue<TKey> | undefined> = { ...this.colors }
+    const overridden = new Set<string>()
+    for (const [token, value] of Object.entries<TokenValue<TKey> | undefined>(colors)) {
+      if (!this.tokens.has(token as TKey)) {
+        this.logger.warn(`Token ${token} is not in the registry. Skipping...`)
+      } else if (!value) {
+        this.logger.warn(`Token ${token} has no color. Skipping...`)
+      } else {
+        lookup[token] = value
+        overridden.add(token)
+      }
+    }
+
+    const stale = overridden.size ? this.dependents(overridden, lookup) : overridden
+    const compiled = (Object.keys(this.colors) as TKey[]).map((token) =>
+      stale.has(token) ? this.serializeToken(token, lookup) : this.memoizedToken(token),
+    )
+
+    // Corrections depend on the paired tokens, so they run on copies of the whole theme
+    if (this.contrastTarget) {
+      const entries = compiled.flatMap((token) => token.entries.map((entry) => ({ ...entry })))
+      this.correctContrast(entries, this.contrastTarget)
+      return Object.fromEntries(
+        entries.map((entry) => [
+          entry.key,
+          this.colorSerializer(entry.color, entry.variant ?? entry.token, entry.source),
+        ]),
+      )
+    }
+
+    return Object.assign({}, ...compiled.map((token) => token.schema))
+  }
+
+  /**
+   * Compiled entries and serialized values of a registered token, computed
+   * once until the token or one of its references changes.
+   * @private
+   */
+  private memoizedToken(token: TKey): CompiledToken<BasePlugins & TPlugins, TColorValue> {
+    let compiled = this.memo.get(token)
+    if (!compiled) {
+      compiled = this.serializeToken(token, this.colors)
+      this.memo.set(token, compiled)
+    }
+    return compiled
+  }
+
+  /**
+   * @private
+   */
+  private serializeToken(
+    token: TKey,
+    lookup: Record<string, TokenValue<TKey> | undefined>,
+  ): CompiledToken<BasePlugins & TPlugins, TColorValue> {
+    const entries = this.compileToken(token, lookup)
+    const schema: Record<string, TColorValue> = {}
+    for (const entry of entries) {
+      this.checkGamut(entry, this.colorSerializer)
+      schema[entry.key] = this.colorSerializer(entry.color, entry.variant ?? entry.token, entry.source) as TColorValue
+    }
+    return { entries, schema }
+  }
+
+  /**
+   * The given tokens along with every token referencing them, directly or
+   * through a chain of aliases, or using their color in a state layer.
+   * @private
+   */
+  private dependents(tokens: Set<string>, lookup: Record<string, TokenValue<TKey> | undefined>): Set<string> {
+    const pairs = this.contrastPairs()
+    const sources = new Map<string, Array<string | undefined>>()
+    for (const [token, value] of Object.entries(lookup)) {
+      const layers = this.variantDefinitions(token as TKey).map(([, definition]) =>
+        "layer" in definition ? this.layerSource(token as TKey, definition.layer, pairs) : undefined,
+      )
+      sources.set(token, [parseReference(value), ...layers])
+    }
+
+    const dependents = new Set(tokens)
+    let size
+    do {
+      size = dependents.size
+      for (const [token, references] of sources) {
+        if (references.some((reference) => reference && dependents.has(reference))) {
+          dependents.add(token)
+        }
+      }
+    } while (dependents.size !== size)
+    return dependents
+  }
+
+  /**
+   * Replaces the colors of foreground entries failing the contrast target
+   * @private
+   */
+  private correctContrast(entries: CompiledEntry<BasePlugins & TPlugins>[], target: ContrastTarget): void {
+    const contrastEntries = entries.map(({ key, token, variant, color }) => ({ key, token, variant, color: color.rgb }))
+    const corrected = correctEntries(contrastEntries, this.contrastPairs(), target, this.logger, this.corrections)
+
+    for (const entry of entries) {
+      const color = corrected.get(entry.key)
+      if (color) {
+        entry.color = this.dye(formatColor(color, "rgb") as ColorValue) as Dye.Instance<BasePlugins & TPlugins>
+        entry.source = undefined
+      }
+    }
+  }
+
+  /**
+   * Reports entries whose CSS Color 4 value lost colors when mapped to sRGB,
+   * unless the serializer they are written with keeps the original color
+   * @private
+   */
+  private checkGamut({ token, color, source }: CompiledEntry<BasePlugins & TPlugins>, serializer?: object): void {
+    if (source && !inGamut(source, "srgb") && !(serializer && wideGamutSerializers.has(serializer))) {
+      this.logger.warn(`Token ${token} is out of the sRGB gamut, mapped to ${formatColor(color.rgb)}.`)
+    }
+  }
+
+  /**
+   * Formats a registry token, and optionally a variant, into its output key
+   * @private
+   */
+  private formatKey(token: string, variant?: string): string {
+    const key = `${this.prefix}${token.replace(/\./g, this.divider)}`
+    return variant ? `${key}${this.divider}${variant}` : key
+  }
+
+  /**
+   * Resolves the variants that apply to a token, from their scope, `include`
+   * and `exclude` lists, the skipped tokens and the selected variants
+   * @private
+   */
+  private variantsFor(
+    token: TKey,
+    selection: VariantSelection,
+    lookup: Record<string, TokenValue<TKey> | undefined>,
+  ): Record<string, VariantFn<BasePlugins & TPlugins>> {
+    const applied = {} as Record<string, VariantFn<BasePlugins & TPlugins>>
+    for (const [name, definition] of this.variantDefinitions(token, selection)) {
+      if (!("layer" in definition)) {
+        applied[name] = definition.fn
+        continue
+      }
+
+      const layer = this.layerColor(token, definition.layer, lookup)
+      if (!layer) {
+        this.logger.warn(`Variant ${name} for token ${token} has no layer color. Skipping...`)
+        continue
+      }
+      const { opacity, flatten = true } = definition.layer
+      const overlay = { ...layer, a: (layer.a ?? 1) * clamp(opacity) }
+      applied[name] = (color) =>
+        this.dye(
+          formatColor(flatten ? compositeOver(overlay, color.rgb) : overlay, "rgb") as ColorValue,
+        ) as Dye.Instance<BasePlugins & TPlugins>
+    }
+    return applied
+  }
+
+  /**
+   * Variant definitions applying to a token, in their object form
+   * @private
+   */
+  private variantDefinitions(
+    token: TKey,
+    selection: VariantSelection = true,
+  ): Array<[string, VariantDefinition<BasePlugins & TPlugins, TKey> | StateLayerDefinition<TKey>]> {
+    const applied: Array<[string, VariantDefinition<BasePlugins & TPlugins, TKey> | StateLayerDefinition<TKey>]> = []
+    if (selection === false || this.skipVariants.has(token)) {
+      return applied
+    }
+
+    for (const [name, config] of Object.entries(this.variants) as Array<
+      [string, VariantConfig<BasePlugins & TPlugins, TKey>]
+    >) {
+      if (selection !== true && !selection.includes(name)) {
+        continue
+      }
+
+      const definition = typeof config === "function" ? { fn: config } : config
+      const { scope = this.colorScope, include = [], exclude = [] } = definition
+      if (exclude.includes(token)) {
+        continue
+      }
+
+      if (include.includes(token) || scope.some((s) => s === "*" || token.endsWith(`.${s}`))) {
+        applied.push([name, definition])
+      }
+    }
+
+    return applied
+  }
+
+  /**
+   * Token whose color a state layer over the given token uses: the
+   * referenced one, or the foreground paired with the token
+   * @private
+   */
+  private layerSource(
+    token: TKey,
+    layer: StateLayer<TKey>,
+    pairs: Array<ContrastPair<TKey>> = this.contrastPairs(),
+  ): string | undefined {
+    if (layer.color) {
+      return parseReference(layer.color)
+    }
+    return pairs.find(({ bg }) => bg === token)?.fg
+  }
+
+  /**
+   * Resolves the color of a state layer over the given token
+   * @private
+   */
+  private layerColor(
+    token: TKey,
+    layer: StateLayer<TKey>,
+    lookup: Record<string, TokenValue<TKey> | undefined>,
+  ): RgbColor | undefined {
+    const source = this.layerSource(token, layer)
+    const value = source ? resolveReference(source as TKey, lookup, this.logger)?.value : layer.color
+    if (!value) {
+      return undefined
+    }
+    const parsed = parseCssColor(value)
+    const color = this.dye((parsed ? formatOklab(parsed, "rgb") : value) as ColorValue)
+    return color.source.isValid ? color.rgb : undefined
+  }
+
+  /**
+   * Helper method to generate variants for a color token
+   * @private
+   */
+  private appendVariants<TPluginsType extends Dye.Plugins, VVariantsKeys extends string = TVariantsKeys>(
+    token: string,
+    baseColor: Dye.Instance<TPluginsType>,
+    variants: Record<VVariantsKeys, VariantFn<TPluginsType>>,
+    entries: CompiledEntry<TPluginsType>[],
+  ): void {
+    for (const variantKey of Object.keys(variants)) {
+      const transformer = variants[variantKey as keyof typeof variants] as VariantFn<TPluginsType>
+
+      // Apply the variant transformation
+      const variantColor = transformer(baseColor, variantKey)
+
+      // Skip invalid color results
+      if (!variantColor.source.isValid) {
+        this.logger.warn(`Variant ${variantKey} for token ${token} produced invalid color. Skipping...`)
+        continue
+      }
+
+      // Create the formatted variant key: token-variantKey
+      entries.push({ key: this.formatKey(token, variantKey), token, variant: variantKey, color: variantColor })
+    }
+  }
+
+  /**
+   * Parses a JSON string, validates it against the registered tokens and
+   * generates a theme schema from its valid tokens. Useful for loading themes
+   * from external JSON files, e.g. uploaded by users.
+   *
+   * Malformed JSON, unknown tokens, missing required tokens, nested objects,
+   * non-string values, unparseable colors and broken references are collected
+   * as issues. In strict mode, any issue throws a {@link ThemeValidationError}.
+   *
+   * @template SVariantsKeys - The variant keys to use for formatting
+   * @template TFormattedKey - The formatted key type
    * @param json - The JSON string to parse
-   * @returns A record of formatted keys and their corresponding color values
+   * @param options - Tokens the JSON must define
+   * @returns Whether the JSON is valid, the generated schema, the valid tokens and every issue found
+   *
+   * @example
+   * ```typescript
+   * const { ok, schema, issues } = theme.parseFromJson('{"button.bg":"#zzz"}', { required: true })
+   * // ok: false
+   * // issues: [{ path: ["button.bg"], code: "invalid_color", message: 'Token button.bg has an invalid color "#zzz".' }, ...]
+   * ```
    */
   parseFromJson<
     SVariantsKeys extends string = TVariantsKeys,
-    TFormattedKey extends FormatToken<TKey, ".", TDivider, TPrefix, SVariantsKeys, TScopedColorToken> = FormatToken<
+    TFormattedKey extends string = SchemaKey<
       TKey,
-      ".",
       TDivider,
       TPrefix,
-      SVariantsKeys,
-      TScopedColorToken
+      TVariants,
+      TScopedColorToken,
+      TSkipVariants,
+      SVariantsKeys
     >,
-  >(json: string): Record<TFormattedKey, TColorValue | undefined> {
-    const parsed = JSON.parse(json) as Record<TKey, ColorValue>
+  >(
+    json: string,
+    options?: ValidationOptions<TKey>,
+  ): ValidationResult<Record<TFormattedKey, TColorValue | undefined>, { [key in TKey]?: TokenValue<TKey> }> {
+    const parsed = parseJson(json)
+    const { colors, issues } =
+      "issue" in parsed
+        ? { colors: {}, issues: [parsed.issue] }
+        : validateColors(parsed.value, this.colors, (value) => this.isColor(value), options)
 
-    if (!parsed) {
-      this.logger.error("Invalid JSON format. Unable to parse theme.")
-      return {} as Record<TFormattedKey, TColorValue | undefined>
+    if (issues.length && this.strict) {
+      throw new ThemeValidationError(issues)
     }
 
-    // Warns that a basse color schema is recommended for proper validation
-    if (!this.baseColorSchema) {
-      this.logger.warn(
-        "No base color schema provided. Some colors may not be validated correctly. Consider using a base color schema.",
-      )
+    const validColors = colors as { [key in TKey]?: TokenValue<TKey> }
+    const schema = this.generateTheme(validColors) as Record<TFormattedKey, TColorValue | undefined>
+    return { ok: !issues.length, schema, colors: validColors, issues }
+  }
+
+  /**
+   * Whether a string is a color accepted by the theme manager.
+   * @private
+   */
+  private isColor(value: string): boolean {
+    return parseCssColor(value) !== undefined || this.dye(value as ColorValue).source.isValid
+  }
+
+  /**
+   * Registers a custom exporter under the given format name, replacing any
+   * exporter previously registered with the same name.
+   *
+   * @param name - Format name used with {@link ThemeManager.export}
+   * @param exporter - The exporter implementation
+   * @returns The theme manager, for chaining
+   *
+   * @example
+   * ```ts
+   * theme.registerExporter("txt", {
+   *   extension: "txt",
+   *   export: (entries) => entries.map((e) => `${e.key}=${e.value}`).join("\n"),
+   * })
+   * theme.export("txt")
+   * ```
+   */
+  registerExporter(name: string, exporter: Exporter<any>): this {
+    this.exporters[name] = exporter
+    return this
+  }
+
+  /**
+   * Returns the exporter registered under the given format name.
+   *
+   * @param name - Format name, built-in or registered
+   * @returns The exporter, or undefined when the format is unknown
+   */
+  getExporter(name: string): Exporter<any> | undefined {
+    return this.exporters[name]
+  }
+
+  /**
+   * Renders the theme with a registered exporter. Values are written in the
+   * requested color syntax, independently of the configured serializer.
+   *
+   * @param name - Format name: "css", "scss", "less", "js", "ts", "dts", "json", "dtcg", "style-dictionary",
+   * "tailwind", "tailwind-theme", "vars" or a registered one
+   * @param options - Color format, color overrides and exporter specific options, with the theme logger by default
+   * @returns The rendered file contents
+   */
+  export<TName extends BuiltinExporterName | (string & {})>(
+    name: TName,
+    options: ThemeExportOptions<TKey, TModes> & ExporterOptions<TName> = {} as ThemeExportOptions<TKey, TModes> &
+      ExporterOptions<TName>,
+  ): string {
+    const exporter = this.exporters[name]
+    if (!exporter) {
+      this.logger.error(`Exporter ${name} is not registered.`)
+      return ""
+    }
+
+    const { colors, format, mode, ...exporterOptions } = options
+    return exporter.export(this.exportEntries({ colors, format, mode }), { logger: this.logger, ...exporterOptions })
+  }
+
+  /**
+   * Compiles the theme into exporter entries, with values in the requested
+   * color syntax.
+   * @private
+   */
+  private exportEntries({ colors, format, mode = baseMode }: ThemeExportOptions<TKey, TModes>): ExportEntry[] {
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const wideGamut = format !== undefined && !srgbFormats.includes(format)
+    const entries: ExportEntry[] = this.compileEntries({ ...modeColors, ...colors }).map((entry) => {
+      const { key, token, variant, reference, color, source } = entry
+      if (!wideGamut) {
+        this.checkGamut(entry)
+      }
+      // Wide gamut syntaxes keep the original color of CSS Color 4 values
+      const value = wideGamut && source ? formatOklab(source, format) : formatColor(color.rgb, format)
+      const css = variant ? this.nativeVariant(token as TKey, variant) : undefined
+      return { key, token, variant, reference, value, css, metadata: this.metadata[token as TKey] }
+    })
+    return [...entries, ...this.designEntries(entries)]
+  }
+
+  /**
+   * CSS expression of a variant, derived from the custom property of its
+   * token, when the variant describes one
+   * @private
+   */
+  private nativeVariant(token: TKey, variant: string): string | undefined {
+    const definition = this.variantDefinitions(token).find(([name]) => name === variant)?.[1]
+    if (!definition) {
+      return undefined
     }
+    const reference = (source: string) => `var(${toCustomProperty(this.formatKey(source))})`
 
-    return this.generateTheme(parsed) as Record<TFormattedKey, TColorValue | undefined>
+    if ("layer" in definition) {
+      const { opacity, flatten = true } = definition.layer
+      const source = this.layerSource(token, definition.layer)
+      const color = source ? reference(source) : definition.layer.color
+      const amount = round(clamp(opacity) * 100, 2)
+      return flatten
+        ? `color-mix(in srgb, ${reference(token)}, ${color} ${amount}%)`
+        : `color-mix(in srgb, ${color} ${amount}%, transparent)`
+    }
+
+    const builtin = definition.fn === defaultVariants[variant as BuiltinVariants]
+    const css = definition.css ?? (builtin ? defaultVariantsCss[variant as BuiltinVariants] : undefined)
+    return css?.(reference(token))
+  }
+
+  /**
+   * Serializes the design tokens, resolving the colors referenced by shadows
+   * among the given color entries.
+   * @private
+   */
+  private designEntries(colorEntries: ExportEntry[]): ExportEntry[] {
+    const colors = new Map(
+      colorEntries.map(({ token, variant, value }) => [variant ? `${token}.${variant}` : token, value]),
+    )
+    return serializeTokens(this.designTokens, {
+      units: this.units,
+      serializers: this.tokenSerializers,
+      resolveColor: (token) => colors.get(token),
+      logger: this.logger,
+    })
+      .filter(({ token }) => {
+        if (!this.tokens.has(token as TKey)) return true
+        this.logger.warn(`Token ${token} is already a color token. Skipping...`)
+        return false
+      })
+      .map(({ token, ...entry }) => ({ key: this.formatKey(token), token, ...entry }))
+  }
+
+  /**
+   * Generates the non-color design tokens, serialized per category with the
+   * configured units. Keys go through the same prefix and divider formatting
+   * as the colors, and shadows resolve their color references in the
+   * requested color syntax.
+   *
+   * @param options - Color format and mode of the shadow colors
+   * @returns Serialized design tokens keyed by formatted token
+   *
+   * @example
+   * ```ts
+   * const theme = new ThemeManager({
+   *   colors: { "text.fg": "#333333" },
+   *   tokens: {
+   *     spacing: { "space.md": 16 },
+   *     shadow: { "shadow.card": { x: 0, y: 1, blur: 3, color: "{text.fg}" } },
+   *   },
+   *   units: { dimension: "rem" },
+   *   output: { prefix: "--", divider: "-" },
+   * })
+   * theme.generateTokens() // { "--space-md": "1rem", "--shadow-card": "0 0.0625rem 0.1875rem 0 #333333" }
+   * ```
+   */
+  generateTokens<TFormattedKey extends string = FormatToken<TDesignKey, ".", TDivider, TPrefix, "", never>>(
+    options: Pick<ThemeExportOptions<TKey, TModes>, "format" | "mode"> = {},
+  ): Record<TFormattedKey, string> {
+    const entries = this.exportEntries(options).filter(({ category }) => category)
+    return Object.fromEntries(entries.map(({ key, value }) => [key, value])) as Record<TFormattedKey, string>
+  }
+
+  /**
+   * CSS variable references of every color, variant and design token, keyed
+   * by token name with variants appended (`button.bg.hover`), each falling
+   * back on its exported value: `var(--button-bg, #3366ff)`. Renamed tokens
+   * break the build instead of silently breaking the styles. Built once,
+   * then again after colors are updated.
+   *
+   * @example
+   * ```ts
+   * const Button = styled.button`
+   *   background: ${theme.vars["button.bg"]};
+   *   &:hover { background: ${theme.vars["button.bg.hover"]}; }
+   * `
+   * ```
+   */
+  get vars(): ThemeVars<SchemaKey<TKey, ".", "", TVariants, TScopedColorToken, TSkipVariants> | TDesignKey> {
+    return (this.memoizedVars ??= this.createVars())
+  }
+
+  /**
+   * Builds the CSS variable references of every color, variant and design
+   * token, like {@link ThemeManager.vars}, with custom fallbacks. Chains nest
+   * the variables of other tokens before the exported value, and a literal
+   * value ends the chain. Fallbacks on unknown tokens are reported through
+   * the logger and skipped.
+   *
+   * @param options - Fallback values and chains, color format and mode of the fallback values
+   * @returns The variable references, keyed by token name
+   *
+   * @example
+   * ```ts
+   * theme.createVars({ chains: { "button.bg": ["{brand.primary}", "#000000"] }, format: "rgb" })
+   * // { "button.bg": "var(--button-bg, var(--brand-primary, #000000))", "brand.primary": "var(--brand-primary, rgb(...))", ... }
+   * ```
+   */
+  createVars<TName extends string = SchemaKey<TKey, ".", "", TVariants, TScopedColorToken, TSkipVariants> | TDesignKey>(
+    options: Pick<ThemeExportOptions<TKey, TModes>, "format" | "mode"> & VarsOptions<NoInfer<TName>> = {},
+  ): ThemeVars<TName> {
+    const { format, mode, ...varsOptions } = options
+    return cssVars(this.exportEntries({ format, mode }), { ...varsOptions, logger: this.logger }) as ThemeVars<TName>
+  }
+
+  /**
+   * Builds a Tailwind preset extending the theme colors. Token namespaces
+   * become nested color objects and variants their keys, every color pointing
+   * at its generated custom property, so switching themes at runtime keeps
+   * working. Pair it with {@link ThemeManager.toCSS} defining the properties.
+   *
+   * @param options - Fallback values, color format and color overrides
+   * @returns The preset, for the `presets` option of `tailwind.config.js`
+   *
+   * @example
+   * ```ts
+   * theme.toTailwindPreset()
+   * // { theme: { extend: { colors: { button: { bg: { DEFAULT: "var(--button-bg)", lighter: "var(--button-bg-lighter)" } } } } } }
+   * ```
+   */
+  toTailwindPreset(options: ThemeExportOptions<TKey, TModes> & TailwindOptions = {}): TailwindPreset {
+    const { colors, format, mode, ...tailwindOptions } = options
+    return {
+      theme: { extend: { colors: tailwindColors(this.exportEntries({ colors, format, mode }), tailwindOptions) } },
+    }
+  }
+
+  /**
+   * Renders the theme as a CSS stylesheet of custom properties. Values are
+   * written in the requested color syntax, independently of the configured
+   * serializer, and keys get the `--` prefix when it is missing.
+   *
+   * @param options - Selector, `@media`/`@supports` wrappers, variant output, color format and color overrides
+   * @returns The complete stylesheet
+   *
+   * @example
+   * ```ts
+   * theme.toCSS({ selector: '[data-theme="dark"]', media: "(prefers-color-scheme: dark)", format: "rgb" })
+   * // @media (prefers-color-scheme: dark) {
+   * //   [data-theme="dark"] {
+   * //     --button-bg: rgb(51, 102, 255);
+   * //   }
+   * // }
+   * ```
+   */
+  toCSS(options: ThemeExportOptions<TKey, TModes> & CssExportOptions = {}): string {
+    return this.export("css", options)
+  }
+
+  /**
+   * Generates the schema of a single mode, using its own colors merged with
+   * the ones inherited from its ancestors. Unlike `generateTheme(colors)`,
+   * the result never depends on previously generated schemas.
+   *
+   * @param mode - The mode to generate, "base" for the root `colors`
+   * @returns Complete schema of the mode with processed colors and variants
+   */
+  generateMode<
+    SVariantsKeys extends string = TVariantsKeys,
+    TFormattedKey extends string = SchemaKey<
+      TKey,
+      TDivider,
+      TPrefix,
+      TVariants,
+      TScopedColorToken,
+      TSkipVariants,
+      SVariantsKeys
+    >,
+  >(mode: TModes | BaseMode): Record<TFormattedKey, TColorValue> {
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    return this.compileSchema(modeColors, this.colorSerializer) as Record<TFormattedKey, TColorValue>
+  }
+
+  /**
+   * Generates the schema of every mode, including the base one.
+   *
+   * @returns Schemas keyed by mode name
+   *
+   * @example
+   * ```ts
+   * const { base, dark } = theme.generateModes()
+   * dark["--button-bg"]
+   * ```
+   */
+  generateModes<
+    SVariantsKeys extends string = TVariantsKeys,
+    TFormattedKey extends string = SchemaKey<
+      TKey,
+      TDivider,
+      TPrefix,
+      TVariants,
+      TScopedColorToken,
+      TSkipVariants,
+      SVariantsKeys
+    >,
+  >(): Record<TModes | BaseMode, Record<TFormattedKey, TColorValue>> {
+    const schemas = {} as Record<TModes | BaseMode, Record<TFormattedKey, TColorValue>>
+    for (const mode of [baseMode, ...Object.keys(this.modes)] as Array<TModes | BaseMode>) {
+      schemas[mode] = this.generateMode<SVariantsKeys, TFormattedKey>(mode)
+    }
+    return schemas
+  }
+
+  /**
+   * Checks that every mode defines every token, either directly or through
+   * inheritance. Each incomplete mode is reported through the logger.
+   *
+   * @returns Missing tokens keyed by mode name, only for incomplete modes
+   */
+  validateModes(): Partial<Record<TModes, TKey[]>> {
+    const missing: Partial<Record<TModes, TKey[]>> = {}
+
+    for (const mode of Object.keys(this.modes) as TModes[]) {
+      const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+      const tokens = [...this.tokens].filter((token) => !modeColors[token])
+
+      if (tokens.length) {
+        missing[mode] = tokens
+        this.logger.warn(`Mode ${mode} does not define ${tokens.join(", ")}.`)
+      }
+    }
+
+    return missing
+  }
+
+  /**
+   * Renders every mode as a single stylesheet. The base mode is declared on
+   * the selector, each mode on a `[data-theme="mode"]` selector, and modes
+   * declaring a `colorScheme` are also applied through `prefers-color-scheme`
+   * when no mode is explicitly selected.
+   *
+   * @param options - Selector, switching attribute, color format and variant output
+   * @returns The complete stylesheet
+   *
+   * @example
+   * ```ts
+   * theme.modesToCSS()
+   * // :root { ... }
+   * // [data-theme="dark"] { ... }
+   * // @media (prefers-color-scheme: dark) {
+   * //   :root:not([data-theme]) { ... }
+   * // }
+   * ```
+   */
+  modesToCSS(
+    options: Pick<ThemeExportOptions<TKey, TModes>, "format"> &
+      Pick<CssExportOptions, "variants" | "fallbacks"> &
+      ModeCssOptions = {},
+  ): string {
+    const { selector = ":root", attribute = "data-theme", colorScheme = true, format, variants, fallbacks } = options
+    const blocks = [this.toCSS({ format, variants, fallbacks, selector })]
+
+    for (const [mode, definition] of Object.entries(this.modes) as Array<[TModes, ModeDefinition<TKey, TModes>]>) {
+      const modeSelector = `${selector === ":root" ? "" : selector}[${attribute}="${mode}"]`
+      blocks.push(this.toCSS({ format, variants, fallbacks, mode, selector: modeSelector }))
+
+      if (colorScheme && definition.colorScheme) {
+        blocks.push(
+          this.toCSS({
+            format,
+            variants,
+            fallbacks,
+            mode,
+            selector: `${selector}:not([${attribute}])`,
+            media: `(prefers-color-scheme: ${definition.colorScheme})`,
+          }),
+        )
+      }
+    }
+
+    return blocks.join("\n")
+  }
+
+  /**
+   * Creates a browser runtime switching between the modes of the theme, the
+   * base colors being registered as the "base" theme. Modes declaring a
+   * color scheme are used when following `prefers-color-scheme`.
+   *
+   * @param options - Target element, storage, attribute and color format
+   * @returns The runtime, already applied to the target
+   *
+   * @example
+   * ```ts
+   * const runtime = theme.createRuntime()
+   * runtime.select("dark")
+   * ```
+   */
+  createRuntime(
+    options: Omit<ThemeRuntimeOptions<TModes | BaseMode>, "themes"> & Pick<ThemeExportOptions, "format"> = {},
+  ): ThemeRuntime<TModes | BaseMode> {
+    const { format, ...runtimeOptions } = options
+    return new ThemeRuntime({ ...this.runtimeThemes(format), ...runtimeOptions })
+  }
+
+  /**
+   * Renders the inline script applying the persisted or system mode before
+   * the page is painted, to pair with {@link ThemeManager.createRuntime} on
+   * server rendered pages.
+   *
+   * @param options - Attribute, storage key and color format, as given to the runtime
+   * @returns The script contents, without the `<script>` tag
+   */
+  bootstrapScript(
+    options: Omit<ThemeRuntimeThemes<TModes | BaseMode>, "themes"> & Pick<ThemeExportOptions, "format"> = {},
+  ): string {
+    const { format, ...runtimeOptions } = options
+    return themeBootstrapScript({ ...this.runtimeThemes(format), ...runtimeOptions })
+  }
+
+  /**
+   * Exports every mode as a runtime theme, along with the modes matching
+   * each color scheme.
+   * @private
+   */
+  private runtimeThemes(format?: ColorFormat): ThemeRuntimeThemes<TModes | BaseMode> {
+    const modes = Object.entries(this.modes) as Array<[TModes, ModeDefinition<TKey, TModes>]>
+    const themes = {} as Record<TModes | BaseMode, Record<string, string>>
+    for (const mode of [baseMode, ...modes.map(([mode]) => mode)]) {
+      themes[mode] = Object.fromEntries(this.exportEntries({ format, mode }).map(({ key, value }) => [key, value]))
+    }
+
+    const colorSchemes = Object.fromEntries(modes.map(([mode, { colorScheme }]) => [mode, colorScheme])) as {
+      [mode in TModes | BaseMode]?: "light" | "dark"
+    }
+    const dark = modes.find(([, { colorScheme }]) => colorScheme === "dark")?.[0]
+    const light = modes.find(([, { colorScheme }]) => colorScheme === "light")?.[0] ?? baseMode
+    return { themes, colorSchemes, system: dark && { light, dark } }
+  }
+
+  /**
+   * Audits the contrast of every foreground/background pair, for the base
+   * colors and every generated variant. Pairs are found automatically by
+   * shared namespace (`text.fg` with `text.bg`) and through the `pairs`
+   * option. Failures are reported through the logger, and throw in strict mode.
+   *
+   * @param options - Level, text size, APCA threshold, mode and color overrides
+   * @returns Structured report with the WCAG ratio, APCA `Lc` and pass/fail of each combination
+   *
+   * @example
+   * ```ts
+   * const report = theme.auditContrast({ level: "AA", apca: 60 })
+   * report.failures // [{ foreground: "--text-fg", background: "--text-bg-darker", ratio: 3.9, ... }]
+   * ```
+   */
+  auditContrast(
+    options: ContrastAuditOptions & Pick<ThemeExportOptions<TKey, TModes>, "mode" | "colors"> = {},
+  ): ContrastReport {
+    const { mode = baseMode, colors, ...auditOptions } = options
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const entries = this.compileEntries({ ...modeColors, ...colors }).map(({ key, token, variant, color }) => ({
+      key,
+      token,
+      variant,
+      color: color.rgb,
+    }))
+    return auditContrast(entries, this.contrastPairs(), auditOptions, this.logger)
+  }
+
+  /**
+   * Generates the schema as perceived with a color vision deficiency, every
+   * color and variant being simulated before serialization. Simulations use
+   * the Machado et al. (2009) matrices, and luminance for achromatopsia.
+   *
+   * @param deficiency - Simulated deficiency
+   * @param options - Severity, mode and color overrides
+   * @returns Simulated schema, keyed like {@link ThemeManager.generateTheme}
+   *
+   * @example
+   * ```ts
+   * theme.simulateVision("deuteranopia")["--status-error"]
+   * theme.simulateVision("protanopia", { severity: 0.6, mode: "dark" })
+   * ```
+   */
+  simulateVision<
+    TFormattedKey extends string = SchemaKey<TKey, TDivider, TPrefix, TVariants, TScopedColorToken, TSkipVariants>,
+  >(
+    deficiency: VisionDeficiency,
+    options: Pick<VisionCheckOptions, "severity"> & Pick<ThemeExportOptions<TKey, TModes>, "mode" | "colors"> = {},
+  ): Record<TFormattedKey, TColorValue> {
+    const { severity, mode = baseMode, colors } = options
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const schema = {} as Record<string, TColorValue>
+    for (const { key, token, variant, color } of this.compileEntries({ ...modeColors, ...colors })) {
+      const simulated = simulateDeficiency(color.rgb, deficiency, severity)
+      const dyed = this.dye(formatColor(simulated, "rgb") as ColorValue) as Dye.Instance<BasePlugins & TPlugins>
+      schema[key] = this.colorSerializer(dyed, variant ?? token) as TColorValue
+    }
+    return schema as Record<TFormattedKey, TColorValue>
+  }
+
+  /**
+   * Checks that tokens meant to be told apart stay distinguishable under each
+   * simulated color vision deficiency. Every two tokens of the same namespace
+   * (`status.error` and `status.success`) are checked, except the
+   * foreground/background pairs, along with the `pairs` option. Conflicts are
+   * reported through the logger, and throw in strict mode.
+   *
+   * @param options - Deficiencies, CIEDE2000 threshold, severity, extra pairs, mode and color overrides
+   * @returns Structured report with the simulated difference of every conflicting pair
+   *
+   * @example
+   * ```ts
+   * const report = theme.checkVision({ deficiencies: ["deuteranopia"], threshold: 12 })
+   * report.conflicts // [{ deficiency: "deuteranopia", first: "status.error", second: "status.success", deltaE: 4.8, ... }]
+   * ```
+   */
+  checkVision(
+    options: VisionCheckOptions & {
+      pairs?: Array<VisionPair<TKey>>
+    } & Pick<ThemeExportOptions<TKey, TModes>, "mode" | "colors"> = {},
+  ): VisionReport {
+    const { pairs = [], mode = baseMode, colors, ...checkOptions } = options
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const entries = this.compileEntries({ ...modeColors, ...colors }).map(({ key, token, variant, color }) => ({
+      key,
+      token,
+      variant,
+      color: color.rgb,
+    }))
+
+    const visionPairs = findVisionPairs(this.tokens, this.contrastPairs())
+    for (const pair of pairs) {
+      if (!visionPairs.some(([a, b]) => (a === pair[0] && b === pair[1]) || (a === pair[1] && b === pair[0]))) {
+        visionPairs.push(pair)
+      }
+    }
+    return checkVision(entries, visionPairs, checkOptions, this.logger)
+  }
+
+  /**
+   * Lints the theme against the built-in rules and custom ones: duplicate and
+   * near-duplicate colors, token names outside a pattern, foregrounds and
+   * backgrounds missing their partner, variants identical to their base, and
+   * colors outside an allowed palette. Issues are reported through
+   * `logger.warn` or `logger.error` according to the severity of their rule.
+   * In strict mode, errors throw a {@link ThemeLintError} carrying the whole
+   * report, while warnings are only reported.
+   *
+   * @param options - Rule configurations, custom rules, mode and color overrides
+   * @returns Every issue found, and whether no rule reported an error
+   *
+   * @example
+   * ```ts
+   * const report = theme.lint({
+   *   rules: {
+   *     "naming-pattern": ["error", { pattern: /^[a-z]+(\.[a-z-]+)+$/ }],
+   *     palette: ["warn", { colors: ["#ffffff", "#000000", "#3366ff"] }],
+   *   },
+   * })
+   * report.issues // [{ rule: "palette", severity: "warn", message: "Token link.fg (#0000ee) is not in the palette.", ... }]
+   * ```
+   */
+  lint(options: LintOptions & Pick<ThemeExportOptions<TKey, TModes>, "mode" | "colors"> = {}): LintReport {
+    const { mode = baseMode, colors, ...lintOptions } = options
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const entries = this.compileEntries({ ...modeColors, ...colors }).map(
+      ({ key, token, variant, reference, color }) => ({
+        key,
+        token,
+        variant,
+        reference,
+        color: color.rgb,
+      }),
+    )
+
+    const parseColor = (value: string) => {
+      const source = parseCssColor(value)
+      const color = this.dye((source ? formatOklab(source, "rgb") : value) as ColorValue)
+      return color.source.isValid ? color.rgb : undefined
+    }
+    // The strict logger would throw on the first warning, the lint run escalates errors itself
+    const logger = this.definition.logger || defaultLogger
+    return lintTheme({ entries, tokens: [...this.tokens], parseColor }, lintOptions, logger, this.strict)
+  }
+
+  /**
+   * Variants as stored in snapshots, transformations keeping their targets only
+   * @private
+   */
+  private snapshotVariants(): Record<string, SnapshotVariant<TKey>> {
+    const variants: Record<string, SnapshotVariant<TKey>> = {}
+    for (const [name, config] of Object.entries<VariantConfig<any, TKey>>(this.variants)) {
+      const definition = typeof config === "function" ? { fn: config } : config
+      if ("layer" in definition) {
+        variants[name] = definition
+        continue
+      }
+
+      const { scope, include, exclude, fn } = definition
+      const builtin = defaultVariants[name as BuiltinVariants] === fn ? (name as BuiltinVariants) : undefined
+      const stored = { scope, include, exclude, builtin }
+      variants[name] = Object.fromEntries(Object.entries(stored).filter(([, value]) => value !== undefined))
+    }
+    return variants
+  }
+
+  /**
+   * Foreground/background pairs found by namespace, followed by the declared ones
+   * @private
+   */
+  private contrastPairs(): Array<ContrastPair<TKey>> {
+    const pairs = findContrastPairs(this.tokens)
+    for (const pair of this.pairs) {
+      if (!pairs.some(({ fg, bg }) => fg === pair.fg && bg === pair.bg)) {
+        pairs.push(pair)
+      }
+    }
+    return pairs
+  }
+
+  /**
+   * Compares two themes, given as theme managers or generated schemas. Keys
+   * are matched by name, variants included, and every changed color is
+   * scored with CIEDE2000: changes below `threshold` (1 by default, the
+   * just noticeable difference) are flagged as cosmetic. The paired tokens
+   * of theme managers are also audited on both sides, reporting every
+   * combination whose WCAG pass/fail flipped.
+   *
+   * @param before - Theme manager or generated schema before the change
+   * @param after - Theme manager or generated schema after the change
+   * @param options - Cosmetic threshold, WCAG level, text size and mode of the theme managers
+   * @returns The added, removed and changed keys, and the contrast flips
+   *
+   * @example
+   * ```ts
+   * const diff = ThemeManager.diff(released, theme, { mode: "dark" })
+   * diff.changed // [{ kind: "changed", key: "--button-bg", before: "#3366ff", after: "#2255ee", deltaE: 4.12, ... }]
+   * diff.contrast // [{ foreground: "--text-fg", background: "--text-bg", before: { passed: true }, after: { passed: false } }]
+   * ```
+   */
+  static diff(before: DiffTheme, after: DiffTheme, options: DiffOptions & { mode?: string } = {}): ThemeDiff {
+    const { mode = baseMode, ...diffOptions } = options
+    const side = (theme: DiffTheme): DiffSide =>
+      theme instanceof ThemeManager ? theme.diffSide(mode) : ThemeManager.schemaSide(theme)
+    return diffThemes(side(before), side(after), diffOptions)
+  }
+
+  /**
+   * Generated colors and contrast pairs of a mode, for diffing
+   * @private
+   */
+  private diffSide(mode: string): DiffSide {
+    const modeColors = resolveModeColors(this.colors, this.modes, mode, this.logger)
+    const entries = this.compileEntries(modeColors).map(({ key, token, variant, color }) => ({
+      key,
+      token,
+      variant,
+      color: color.rgb,
+    }))
+    return { entries, pairs: this.contrastPairs() }
+  }
+
+  /**
+   * Colors of a generated schema, for diffing. Keys are the only known
+   * tokens, so no pair is audited.
+   * @private
+   */
+  private static schemaSide(schema: Record<string, unknown>): DiffSide {
+    const colorus = new Colorus({ parsers: defaultParsers })
+    const entries: ContrastEntry[] = []
+    for (const [key, value] of Object.entries(schema)) {
+      const source = typeof value === "string" ? parseCssColor(value) : undefined
+      const color = colorus.dye((source ? formatOklab(source, "rgb") : value) as ColorValue)
+      if (color.source.isValid) {
+        entries.push({ key, token: key, color: color.rgb })
+      }
+    }
+    return { entries, pairs: [] }
   }
 }
 
 const __internal__ = { defaultVariants, consoleLogger }
 
 export * from "colorus-js"
-export { __internal__, ThemeManager }
+export {
+  apcaContrast,
+  compositeOver,
+  contrastRatio,
+  deltaE2000,
+  formatColor,
+  formatOklab,
+  inGamut,
+  labToOklab,
+  oklabToLab,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToRgb,
+  parseCssColor,
+  relativeLuminance,
+  rgbToOklab,
+  rgbToOklch,
+} from "./color"
+export {
+  auditContrast,
+  correctContrast,
+  correctEntries,
+  findContrastPairs,
+  measureContrast,
+  wcagThresholds,
+} from "./contrast"
+export { parseReference, resolveReference } from "./aliases"
+export { diffThemes, formatDiff } from "./diff"
+export { generateHarmony, harmonyRules } from "./harmonies"
+export { builtinLintRules, defaultLintRules, lintTheme, ThemeLintError } from "./lint"
+export { generateScale, scalePresets } from "./scales"
+export { hashSnapshot, migrateSnapshot, snapshotMigrations, snapshotVersion } from "./snapshot"
+export { formatDimension, serializeTokens } from "./tokens"
+export { colorMix, nativeSupports, relativeColor } from "./native"
+export { cssVars, varsExporter } from "./vars"
+export { checkVision, findVisionPairs, simulateDeficiency, visionDeficiencies, visionMatrices } from "./vision"
+export { ThemeValidationError, validateColors } from "./validation"
+export { dtcgExporter, importTokens, styleDictionaryExporter, toCssColor } from "./dtcg"
+export { tailwindColors, tailwindConfigExporter, tailwindThemeExporter } from "./tailwind"
+export { themeBootstrapScript, ThemeRuntime } from "./runtime"
+export { builtinExporters } from "./registry"
+export {
+  cssExporter,
+  dtsExporter,
+  exportCSS,
+  jsExporter,
+  jsonExporter,
+  lessExporter,
+  scssExporter,
+  toCustomProperty,
+  toIdentifier,
+  toStyleVariable,
+  tsExporter,
+} from "./exporters"
+export { __internal__, formatSerializer, ThemeManager }
+
+export type { ColorFormat, Gamut, OklabColor, OklchColor, RgbColor } from "./color"
+export type {
+  AliasExportOptions,
+  CssExportOptions,
+  Exporter,
+  ExportEntry,
+  JsonExportOptions,
+  LessExportOptions,
+  ModuleExportOptions,
+  NamingExportOptions,
+  ScssExportOptions,
+} from "./exporters"
+export type { BuiltinExporterName, ExporterOptions } from "./registry"
+export type { BaseMode, ModeCssOptions, ModeDefinition } from "./modes"
+export type {
+  ContrastAuditOptions,
+  ContrastCorrection,
+  ContrastCorrections,
+  ContrastEntry,
+  ContrastLevel,
+  ContrastPair,
+  ContrastReport,
+  ContrastResult,
+  ContrastTarget,
+  TextSize,
+} from "./contrast"
+export type { ResolvedToken, TokenReference, TokenValue } from "./aliases"
+export type { ContrastDiff, DiffKind, DiffOptions, DiffSide, ThemeDiff, TokenDiff } from "./diff"
+export type { HarmonyName, HarmonyOptions, HarmonyRule, HarmonyToken, TokenNamespace } from "./harmonies"
+export type {
+  BuiltinLintRules,
+  LintContext,
+  LintEntry,
+  LintFinding,
+  LintIssue,
+  LintOptions,
+  LintReport,
+  LintRule,
+  LintRuleConfig,
+  LintRulesConfig,
+  LintSeverity,
+} from "./lint"
+export type { ScaleOptions, ScalePreset, ScaleStep, ScaleSteps } from "./scales"
+export type { SnapshotMigration, SnapshotMigrations, SnapshotVariant, ThemeSnapshot } from "./snapshot"
+export type {
+  DesignTokenEntry,
+  DesignTokens,
+  Dimension,
+  Duration,
+  ShadowLayer,
+  TokenCategory,
+  TokenCategoryValues,
+  TokenSerializers,
+  TokenUnits,
+} from "./tokens"
+export type { CssColorSpace, CssVariant, RelativeChannels, RelativeColorSpace } from "./native"
+export type { ThemeVars, VarFallback, VarsExportOptions, VarsOptions } from "./vars"
+export type { VisionCheckOptions, VisionConflict, VisionDeficiency, VisionPair, VisionReport } from "./vision"
+export type { TokenExportOptions, TokenFileFormat, TokenImport, TokenImportOptions, TokenMetadata } from "./dtcg"
+export type {
+  TailwindColors,
+  TailwindConfigExportOptions,
+  TailwindOptions,
+  TailwindPreset,
+  TailwindThemeExportOptions,
+} from "./tailwind"
+export type { ThemeChange, ThemeRuntimeOptions, ThemeRuntimeThemes, ThemeSelection, ThemeStorage } from "./runtime"
+export type { ValidationIssue, ValidationIssueCode, ValidationOptions, ValidationResult } from "./validation"
 
 export type {
   AnyPlugins,
@@ -452,10 +2509,25 @@ export type {
   ColorSerializer,
   ColorValue,
   DefaultColorScope,
+  DiffTheme,
   FormatToken,
+  GenerateOptions,
   InjectPrefix,
   Logger,
+  SchemaKey,
+  StateLayer,
+  StateLayerDefinition,
+  ThemeExportOptions,
+  SnapshotTheme,
+  ThemeManagerOptions,
+  ThemeOrigin,
+  TokenChange,
   TokenName,
+  TokenVariants,
+  VariantConfig,
+  VariantDefinition,
   VariantFactory,
   VariantFn,
+  VariantsConfig,
+  VariantTargets,
 }
@@ -0,0 +1,326 @@
+import type { RgbColor } from "./color"
+import type { Logger } from "./index"
+import { deltaE2000, formatColor, round } from "./color"
+
+/**
+ * Severity of a lint rule: disabled, reported through `logger.warn`, or
+ * reported through `logger.error`. Only errors fail in strict mode.
+ */
+type LintSeverity = "off" | "warn" | "error"
+
+/**
+ * A generated color handed to the lint rules.
+ */
+type LintEntry = {
+  key: string
+  token: string
+  variant?: string
+  /** Formatted key of the token this entry is an alias of */
+  reference?: string
+  color: RgbColor
+}
+
+/**
+ * Everything a lint rule can inspect.
+ */
+type LintContext = {
+  /** Generated colors, base colors and variants */
+  entries: LintEntry[]
+  /** Registered tokens, including the ones without a color */
+  tokens: string[]
+  /** Parses a CSS color, e.g. from the rule options */
+  parseColor: (value: string) => RgbColor | undefined
+}
+
+/**
+ * A problem found by a lint rule.
+ */
+type LintFinding = {
+  message: string
+  /** Tokens involved */
+  tokens: string[]
+}
+
+/**
+ * A lint rule, returning every problem it finds in the theme.
+ *
+ * @template TOptions - Options of the rule
+ *
+ * @example
+ * ```ts
+ * const noPureBlack: LintRule = ({ entries }) =>
+ *   entries
+ *     .filter(({ variant, color }) => !variant && color.r + color.g + color.b === 0)
+ *     .map(({ token }) => ({ message: `Token ${token} is pure black.`, tokens: [token] }))
+ * ```
+ */
+type LintRule<TOptions = any> = (context: LintContext, options: TOptions) => LintFinding[]
+
+/**
+ * Severity of a rule, along with its options. Rules requiring options can
+ * only be enabled with them.
+ *
+ * @template TOptions - Options of the rule
+ */
+type LintRuleConfig<TOptions = undefined> =
+  Partial<TOptions> extends TOptions
+    ? LintSeverity | readonly [LintSeverity, TOptions]
+    : "off" | readonly [LintSeverity, TOptions]
+
+/**
+ * Options of each built-in rule.
+ */
+type BuiltinLintRules = {
+  "duplicate-value": undefined
+  "near-duplicate": {
+    /** CIEDE2000 difference below which two colors are near duplicates (default 2) */
+    threshold?: number
+  }
+  "naming-pattern": {
+    /** Pattern every token name must match */
+    pattern: RegExp | string
+  }
+  "missing-partner": undefined
+  "collapsed-variant": undefined
+  palette: {
+    /** Allowed CSS colors */
+    colors: readonly string[]
+    /** CIEDE2000 difference tolerated from the closest allowed color (default 0.5) */
+    threshold?: number
+  }
+}
+
+/**
+ * Rule configurations keyed by rule name, built-in or custom.
+ *
+ * @example
+ * ```ts
+ * const rules: LintRulesConfig = {
+ *   "near-duplicate": ["error", { threshold: 3 }],
+ *   "naming-pattern": ["warn", { pattern: /^[a-z]+(\.[a-z-]+)+$/ }],
+ *   "duplicate-value": "off",
+ * }
+ * ```
+ */
+type LintRulesConfig = { [R in keyof BuiltinLintRules]?: LintRuleConfig<BuiltinLintRules[R]> } & Record<
+  string,
+  LintRuleConfig<any>
+>
+
+/**
+ * Options of a lint run.
+ */
+type LintOptions = {
+  /** Severity and options of each rule, merged over the defaults */
+  rules?: LintRulesConfig
+  /** Custom rules, keyed by name, enabled as warnings unless configured in `rules` */
+  customRules?: Record<string, LintRule>
+}
+
+/**
+ * A problem found by a lint run.
+ */
+type LintIssue = LintFinding & {
+  rule: string
+  severity: Exclude<LintSeverity, "off">
+}
+
+/**
+ * Result of a lint run.
+ */
+type LintReport = {
+  /** True when no rule reported an error */
+  passed: boolean
+  issues: LintIssue[]
+}
+
+/**
+ * Error thrown by strict lint runs finding errors, carrying the whole report.
+ */
+class ThemeLintError extends Error {
+  readonly report: LintReport
+
+  constructor(report: LintReport) {
+    const errors = report.issues.filter(({ severity }) => severity === "error")
+    const details = errors.map(({ message, rule }) => `${message} (${rule})`)
+    super(`[Theme-Manager]: Theme lint failed with ${errors.length} error(s).\n${details.join("\n")}`)
+    this.name = "ThemeLintError"
+    this.report = report
+  }
+}
+
+const foregroundScopes = ["fg", "foreground"]
+const backgroundScopes = ["bg", "background"]
+
+/**
+ * Base colors that are not aliases, the ones whose value is chosen by hand.
+ */
+const literalEntries = (entries: LintEntry[]) => entries.filter(({ variant, reference }) => !variant && !reference)
+
+const builtinLintRules: { [R in keyof BuiltinLintRules]: LintRule<BuiltinLintRules[R]> } = {
+  "duplicate-value": ({ entries }) => {
+    const groups = new Map<string, string[]>()
+    for (const { token, color } of literalEntries(entries)) {
+      const hex = formatColor(color)
+      groups.set(hex, [...(groups.get(hex) ?? []), token])
+    }
+    return [...groups]
+      .filter(([, tokens]) => tokens.length > 1)
+      .map(([hex, tokens]) => ({
+        message: `Tokens ${tokens.join(", ")} have the same color ${hex}, alias them instead.`,
+        tokens,
+      }))
+  },
+
+  "near-duplicate": ({ entries }, { threshold = 2 } = {}) => {
+    const literals = literalEntries(entries)
+    const findings: LintFinding[] = []
+    literals.forEach((first, i) => {
+      for (const second of literals.slice(i + 1)) {
+        const deltaE = deltaE2000(first.color, second.color)
+        if (deltaE > 0.05 && deltaE < threshold) {
+          findings.push({
+            message: `Tokens ${first.token} and ${second.token} are nearly identical (ΔE ${round(deltaE, 2)}).`,
+            tokens: [first.token, second.token],
+          })
+        }
+      }
+    })
+    return findings
+  },
+
+  "naming-pattern": ({ tokens }, options) => {
+    if (!options?.pattern) {
+      return []
+    }
+    const pattern = typeof options.pattern === "string" ? new RegExp(options.pattern) : options.pattern
+    return tokens
+      .filter((token) => !pattern.test(token))
+      .map((token) => ({ message: `Token ${token} does not match the naming pattern ${pattern}.`, tokens: [token] }))
+  },
+
+  "missing-partner": ({ tokens }) => {
+    const registry = new Set(tokens)
+    const findings: LintFinding[] = []
+    for (const token of tokens) {
+      const separator = token.lastIndexOf(".")
+      const scope = token.slice(separator + 1)
+      const partners = foregroundScopes.includes(scope)
+        ? backgroundScopes
+        : backgroundScopes.includes(scope)
+          ? foregroundScopes
+          : undefined
+      const namespace = token.slice(0, separator)
+      if (partners && !partners.some((partner) => registry.has(`${namespace}.${partner}`))) {
+        findings.push({
+          message: `Token ${token} has no ${partners === foregroundScopes ? "foreground" : "background"} partner ${namespace}.${partners[0]}.`,
+          tokens: [token],
+        })
+      }
+    }
+    return findings
+  },
+
+  "collapsed-variant": ({ entries }) => {
+    const base = new Map(
+      entries.filter(({ variant }) => !variant).map(({ token, color }) => [token, formatColor(color)]),
+    )
+    return entries
+      .filter(({ token, variant, color }) => variant && formatColor(color) === base.get(token))
+      .map(({ token, variant }) => ({
+        message: `Variant ${variant} of token ${token} is identical to its base color.`,
+        tokens: [token],
+      }))
+  },
+
+  palette: ({ entries, parseColor }, options) => {
+    if (!options?.colors) {
+      return []
+    }
+    const { threshold = 0.5 } = options
+    const palette = options.colors.map(parseColor).filter((color): color is RgbColor => color !== undefined)
+    return literalEntries(entries)
+      .filter(({ color }) => !palette.some((allowed) => deltaE2000(color, allowed) <= threshold))
+      .map(({ token, color }) => ({
+        message: `Token ${token} (${formatColor(color)}) is not in the palette.`,
+        tokens: [token],
+      }))
+  },
+}
+
+const defaultLintRules: LintRulesConfig = {
+  "duplicate-value": "warn",
+  "near-duplicate": "warn",
+  "missing-partner": "warn",
+  "collapsed-variant": "warn",
+}
+
+/**
+ * Runs the configured lint rules over a theme. Once every rule has run, each
+ * issue is reported through `logger.warn` or `logger.error` according to the
+ * severity of its rule. In strict mode, errors are thrown together instead.
+ * Unknown rules are reported and skipped.
+ *
+ * @param context - Generated colors, registered tokens and color parser
+ * @param options - Rule configurations and custom rules
+ * @param logger - Logger reporting the issues, never throwing itself
+ * @param strict - Throw when any issue is an error (default false)
+ * @returns The issues found, and whether no rule reported an error
+ * @throws {ThemeLintError} In strict mode, when any issue is an error
+ *
+ * @example
+ * ```ts
+ * lintTheme(context, { rules: { "near-duplicate": ["error", { threshold: 3 }] } }, console)
+ * // { passed: false, issues: [{ rule: "near-duplicate", severity: "error", message: "Tokens ...", tokens: [...] }] }
+ * ```
+ */
+function lintTheme(context: LintContext, options: LintOptions, logger: Logger, strict = false): LintReport {
+  const { customRules = {} } = options
+  const rules: Record<string, LintRule> = { ...builtinLintRules, ...customRules }
+  const config: Record<string, LintRuleConfig<any>> = {
+    ...defaultLintRules,
+    ...Object.fromEntries(Object.keys(customRules).map((name) => [name, "warn"])),
+    ...options.rules,
+  }
+  const issues: LintIssue[] = []
+
+  for (const [name, ruleConfig] of Object.entries(config)) {
+    const [severity, ruleOptions] = typeof ruleConfig === "string" ? [ruleConfig] : ruleConfig
+    if (severity === "off") {
+      continue
+    }
+    const rule = rules[name]
+    if (!rule) {
+      logger.warn(`Lint rule ${name} is not registered. Skipping...`)
+      continue
+    }
+
+    issues.push(...rule(context, ruleOptions).map((finding) => ({ ...finding, rule: name, severity })))
+  }
+
+  const report = { passed: issues.every(({ severity }) => severity !== "error"), issues }
+  for (const { message, rule, severity } of issues) {
+    if (!strict || severity === "warn") {
+      logger[severity](`${message} (${rule})`)
+    }
+  }
+  if (strict && !report.passed) {
+    throw new ThemeLintError(report)
+  }
+  return report
+}
+
+export { builtinLintRules, defaultLintRules, lintTheme, ThemeLintError }
+export type {
+  BuiltinLintRules,
+  LintContext,
+  LintEntry,
+  LintFinding,
+  LintIssue,
+  LintOptions,
+  LintReport,
+  LintRule,
+  LintRuleConfig,
+  LintRulesConfig,
+  LintSeverity,
+}
@@ -0,0 +1,97 @@
+import type { TokenValue } from "./aliases"
+import type { Logger, TokenName } from "./index"
+
+/**
+ * Name of the implicit mode built from the `colors` option.
+ */
+type BaseMode = "base"
+
+/**
+ * Declares a named mode (e.g. "dark", "high-contrast") sharing the token
+ * set of the theme, with its own values.
+ *
+ * @template TKey - The theme token names
+ * @template TModes - Names of every declared mode
+ *
+ * @example
+ * ```ts
+ * const dark: ModeDefinition<"button.bg" | "text.fg", "dark" | "dimmed"> = {
+ *   colorScheme: "dark",
+ *   colors: { "button.bg": "#1a3d99", "text.fg": "#eeeeee" },
+ * }
+ * ```
+ */
+type ModeDefinition<TKey extends TokenName, TModes extends string = string> = {
+  /** Mode to inherit missing values from, or false to inherit nothing (default "base") */
+  extends?: TModes | BaseMode | false
+  /** Color scheme matched by the `prefers-color-scheme` media query */
+  colorScheme?: "light" | "dark"
+  /** Colors defined by this mode */
+  colors: { [key in TKey]?: TokenValue<TKey> }
+}
+
+/**
+ * Options for rendering every mode of a theme as a single stylesheet.
+ */
+type ModeCssOptions = {
+  /** Selector holding the base mode declarations (default ":root") */
+  selector?: string
+  /** Attribute used to switch modes, e.g. `[data-theme="dark"]` (default "data-theme") */
+  attribute?: string
+  /** Emit `prefers-color-scheme` blocks for modes declaring a color scheme (default true) */
+  colorScheme?: boolean
+}
+
+const baseMode: BaseMode = "base"
+
+/**
+ * Resolves the complete color map of a mode by walking its inheritance
+ * chain, from the furthest ancestor down to the mode itself. Unknown
+ * ancestors and inheritance cycles are reported through the logger.
+ *
+ * @param colors - Base colors of the theme
+ * @param modes - Declared modes
+ * @param mode - Mode to resolve
+ * @param logger - Logger reporting invalid inheritance
+ * @returns The colors of the mode, merged with the inherited ones
+ */
+function resolveModeColors<TKey extends TokenName>(
+  colors: { [key in TKey]: TokenValue<TKey> },
+  modes: Record<string, ModeDefinition<TKey>>,
+  mode: string,
+  logger: Logger,
+): { [key in TKey]?: TokenValue<TKey> } {
+  if (mode === baseMode) {
+    return { ...colors }
+  }
+
+  const chain: ModeDefinition<TKey>[] = []
+  const visited = new Set<string>()
+  let current: string | false = mode
+
+  while (current !== false && current !== baseMode) {
+    if (visited.has(current)) {
+      logger.error(`Mode ${mode} has a circular inheritance through ${current}.`)
+      return {}
+    }
+
+    const definition: ModeDefinition<TKey> | undefined = modes[current]
+    if (!definition) {
+      logger.error(`Mode ${current} is not defined.`)
+      return {}
+    }
+
+    visited.add(current)
+    chain.unshift(definition)
+    current = definition.extends ?? baseMode
+  }
+
+  const inherited = current === baseMode ? { ...colors } : {}
+  return chain.reduce<{ [key in TKey]?: TokenValue<TKey> }>(
+    (acc, definition) => ({ ...acc, ...definition.colors }),
+    inherited,
+  )
+}
+
+export { baseMode, resolveModeColors }
+export type { BaseMode, ModeCssOptions, ModeDefinition }
@@ -0,0 +1,106 @@
+/**
+ * Builds the CSS expression of a variant from a reference to its base color,
+ * e.g. `var(--button-bg)`, so the variant follows the base at runtime.
+ *
+ * @example
+ * ```ts
+ * const lighter: CssVariant = (base) => `color-mix(in oklch, ${base}, white 12%)`
+ * ```
+ */
+type CssVariant = (reference: string) => string
+
+/**
+ * Color spaces accepted by `color-mix()` and the relative color syntax.
+ */
+type CssColorSpace = "srgb" | "srgb-linear" | "display-p3" | "lab" | "oklab" | "lch" | "oklch" | "hsl" | "hwb" | "xyz"
+
+/**
+ * Channels of each color function supporting the relative color syntax, in
+ * their CSS order.
+ */
+const spaceChannels = {
+  oklch: ["l", "c", "h"],
+  lch: ["l", "c", "h"],
+  oklab: ["l", "a", "b"],
+  lab: ["l", "a", "b"],
+  rgb: ["r", "g", "b"],
+  hsl: ["h", "s", "l"],
+  hwb: ["h", "w", "b"],
+} as const
+
+/**
+ * Color function of a relative color.
+ */
+type RelativeColorSpace = keyof typeof spaceChannels
+
+/**
+ * Channel expressions of a relative color, each defaulting to the channel of
+ * the base color, and its alpha.
+ */
+type RelativeChannels = Partial<Record<(typeof spaceChannels)[RelativeColorSpace][number] | "alpha", string | number>>
+
+/**
+ * Creates a variant mixing its base color with another color through
+ * `color-mix()`.
+ *
+ * @param color - CSS color mixed into the base
+ * @param amount - Percentage of that color in the mix
+ * @param space - Interpolation color space (default "oklch")
+ * @returns The CSS variant
+ *
+ * @example
+ * ```ts
+ * colorMix("white", 12)("var(--button-bg)") // "color-mix(in oklch, var(--button-bg), white 12%)"
+ * ```
+ */
+function colorMix(color: string, amount: number, space: CssColorSpace = "oklch"): CssVariant {
+  return (reference) => `color-mix(in ${space}, ${reference}, ${color} ${amount}%)`
+}
+
+/**
+ * Creates a variant deriving its base color with the relative color syntax.
+ * Channels without an expression keep the value of the base.
+ *
+ * @param channels - Expression of each changed channel, using the channel keywords
+ * @param space - Color function of the channels (default "oklch")
+ * @returns The CSS variant
+ *
+ * @example
+ * ```ts
+ * relativeColor({ l: "calc(l + 0.1)" })("var(--button-bg)") // "oklch(from var(--button-bg) calc(l + 0.1) c h)"
+ * relativeColor({ alpha: 0.5 }, "rgb")("var(--button-bg)") // "rgb(from var(--button-bg) r g b / 0.5)"
+ * ```
+ */
+function relativeColor(channels: RelativeChannels, space: RelativeColorSpace = "oklch"): CssVariant {
+  const values = spaceChannels[space].map((name) => String(channels[name] ?? name))
+  const { alpha } = channels
+  return (reference) => `${space}(from ${reference} ${values.join(" ")}${alpha === undefined ? "" : ` / ${alpha}`})`
+}
+
+/**
+ * Feature queries of the CSS syntaxes used by native variants.
+ */
+const nativeFeatures: Array<[test: (value: string) => boolean, query: string]> = [
+  [(value) => value.includes("color-mix("), "(color: color-mix(in oklch, white, black))"],
+  [(value) => /\(from\s/.test(value), "(color: oklch(from white l c h))"],
+]
+
+/**
+ * Builds the feature query guarding native variant values, so browsers
+ * without support keep their precomputed fallbacks.
+ *
+ * @param values - CSS values of the native variants
+ * @returns The feature query, or `undefined` when no feature needs a guard
+ *
+ * @example
+ * ```ts
+ * nativeSupports(["color-mix(in oklch, var(--button-bg), white 12%)"]) // "(color: color-mix(in oklch, white, black))"
+ * ```
+ */
+function nativeSupports(values: string[]): string | undefined {
+  const queries = nativeFeatures.filter(([test]) => values.some(test)).map(([, query]) => query)
+  return queries.length ? queries.join(" and ") : undefined
+}
+
+export { colorMix, nativeSupports, relativeColor }
+export type { CssColorSpace, CssVariant, RelativeChannels, RelativeColorSpace }
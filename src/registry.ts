@@ -0,0 +1,40 @@
+import type { Exporter } from "./exporters"
+import { dtcgExporter, styleDictionaryExporter } from "./dtcg"
+import { cssExporter, dtsExporter, jsExporter, jsonExporter, lessExporter, scssExporter, tsExporter } from "./exporters"
+import { tailwindConfigExporter, tailwindThemeExporter } from "./tailwind"
+import { varsExporter } from "./vars"
+
+/**
+ * Exporters registered on every theme manager, keyed by format name. Kept
+ * apart from the exporters, so none of them imports another one while its
+ * module loads.
+ */
+const builtinExporters = {
+  css: cssExporter,
+  scss: scssExporter,
+  less: lessExporter,
+  js: jsExporter,
+  ts: tsExporter,
+  dts: dtsExporter,
+  json: jsonExporter,
+  dtcg: dtcgExporter,
+  "style-dictionary": styleDictionaryExporter,
+  tailwind: tailwindConfigExporter,
+  "tailwind-theme": tailwindThemeExporter,
+  vars: varsExporter,
+}
+
+type BuiltinExporterName = keyof typeof builtinExporters
+
+/**
+ * Resolves the options accepted by an exporter from its format name.
+ * Custom formats accept any options.
+ */
+type ExporterOptions<TName extends string> = TName extends BuiltinExporterName
+  ? (typeof builtinExporters)[TName] extends Exporter<infer O>
+    ? O
+    : never
+  : Record<string, unknown>
+
+export { builtinExporters }
+export type { BuiltinExporterName, ExporterOptions }
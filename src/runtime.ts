@@ -0,0 +1,334 @@
+import { toCustomProperty } from "./exporters"
+
+/**
+ * Selected theme: a theme name, or "system" to follow `prefers-color-scheme`.
+ *
+ * @template TTheme - Names of the registered themes
+ */
+type ThemeSelection<TTheme extends string = string> = TTheme | "system"
+
+/**
+ * Storage persisting the selected theme, `localStorage` by default.
+ *
+ * @example
+ * ```ts
+ * const values = new Map<string, string>()
+ * const memoryStorage: ThemeStorage = {
+ *   getItem: (key) => values.get(key) ?? null,
+ *   setItem: (key, value) => values.set(key, value),
+ * }
+ * ```
+ */
+type ThemeStorage = {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+}
+
+/**
+ * Change notified to subscribers and dispatched as a `themechange` event on
+ * the target element.
+ *
+ * @template TTheme - Names of the registered themes
+ */
+type ThemeChange<TTheme extends string = string> = {
+  /** The selected theme, possibly "system" */
+  selected: ThemeSelection<TTheme>
+  /** The theme applied to the target */
+  theme: TTheme
+  /** The theme applied before the change */
+  previous?: TTheme
+}
+
+/**
+ * Themes known to the runtime, and how the system one is resolved.
+ *
+ * @template TTheme - Names of the registered themes
+ */
+type ThemeRuntimeThemes<TTheme extends string = string> = {
+  /** Generated schemas of each theme, keyed by custom property (with or without the `--` prefix) */
+  themes: Record<TTheme, Record<string, string>>
+  /** Themes applied for each `prefers-color-scheme` when "system" is selected */
+  system?: { light: NoInfer<TTheme>; dark: NoInfer<TTheme> }
+  /** Color scheme of each theme, set as the `color-scheme` of the target */
+  colorSchemes?: { [theme in NoInfer<TTheme>]?: "light" | "dark" }
+  /** Selection used when nothing is persisted (default "system" when `system` is set, the first theme otherwise) */
+  defaultTheme?: ThemeSelection<NoInfer<TTheme>>
+  /** Attribute receiving the applied theme name, or `false` to skip it (default "data-theme") */
+  attribute?: string | false
+  /** Storage key of the selected theme (default "themix-theme") */
+  storageKey?: string
+}
+
+/**
+ * Options of a browser theme runtime.
+ *
+ * @template TTheme - Names of the registered themes
+ */
+type ThemeRuntimeOptions<TTheme extends string = string> = ThemeRuntimeThemes<TTheme> & {
+  /** Element receiving the custom properties (default `document.documentElement`) */
+  target?: HTMLElement
+  /** Storage persisting the selection, or `false` to skip persistence (default `localStorage`) */
+  storage?: ThemeStorage | false
+  /** Window providing `matchMedia` (default the global window) */
+  window?: Pick<Window, "matchMedia">
+}
+
+const darkSchemeQuery = "(prefers-color-scheme: dark)"
+const defaultStorageKey = "themix-theme"
+
+/**
+ * Applies generated themes to the DOM: writes their custom properties on a
+ * target element, switches between them, persists the selection and follows
+ * `prefers-color-scheme` while "system" is selected. Every change is notified
+ * to subscribers and dispatched as a `themechange` event on the target.
+ *
+ * @template TTheme - Names of the registered themes
+ *
+ * @example
+ * ```ts
+ * const runtime = new ThemeRuntime({
+ *   themes: { light: theme.generateTheme(), dark: theme.generateMode("dark") },
+ *   system: { light: "light", dark: "dark" },
+ * })
+ *
+ * runtime.subscribe(({ theme }) => console.log(`Switched to ${theme}`))
+ * runtime.select("dark")
+ * ```
+ */
+class ThemeRuntime<TTheme extends string = string> {
+  private readonly themes: Record<TTheme, Record<string, string>>
+  private readonly options: ThemeRuntimeOptions<TTheme>
+  private readonly target?: HTMLElement
+  private readonly storage?: ThemeStorage
+  private readonly media?: MediaQueryList
+  private readonly listeners = new Set<(change: ThemeChange<TTheme>) => void>()
+  private selection: ThemeSelection<TTheme>
+  private applied?: TTheme
+
+  /**
+   * @throws When no theme is registered
+   */
+  constructor(options: ThemeRuntimeOptions<TTheme>) {
+    if (Object.keys(options.themes ?? {}).length === 0) {
+      throw new Error("[Theme-Manager]: ThemeRuntime needs at least one theme.")
+    }
+
+    this.themes = options.themes
+    this.options = options
+    this.target = options.target ?? globalThis.document?.documentElement
+    this.storage = options.storage === false ? undefined : (options.storage ?? defaultStorage())
+    this.media = (options.window ?? globalThis.window)?.matchMedia?.(darkSchemeQuery)
+    this.media?.addEventListener("change", this.handleSchemeChange)
+
+    const stored = this.read()
+    this.selection = stored ?? options.defaultTheme ?? (options.system ? "system" : this.names[0])
+    this.apply()
+  }
+
+  /**
+   * Names of the registered themes.
+   */
+  get names(): TTheme[] {
+    return Object.keys(this.themes) as TTheme[]
+  }
+
+  /**
+   * The selected theme, possibly "system".
+   */
+  get selected(): ThemeSelection<TTheme> {
+    return this.selection
+  }
+
+  /**
+   * The theme currently applied to the target.
+   */
+  get theme(): TTheme {
+    return this.resolve(this.selection)
+  }
+
+  /**
+   * Selects, applies and persists a theme.
+   *
+   * @param selection - A registered theme name, or "system"
+   * @throws When the theme is not registered
+   */
+  select(selection: ThemeSelection<TTheme>): void {
+    if (!this.isSelection(selection)) {
+      throw new Error(`[Theme-Manager]: Theme ${selection} is not registered.`)
+    }
+
+    this.selection = selection
+    this.write(selection)
+    this.apply()
+  }
+
+  /**
+   * Registers a listener called on every change of the applied theme.
+   *
+   * @param listener - Listener receiving the change
+   * @returns A function removing the listener
+   */
+  subscribe(listener: (change: ThemeChange<TTheme>) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Stops following `prefers-color-scheme` and removes every listener. The
+   * applied custom properties are left in place.
+   */
+  destroy(): void {
+    this.media?.removeEventListener("change", this.handleSchemeChange)
+    this.listeners.clear()
+  }
+
+  /**
+   * Re-applies the system theme when the color scheme preference changes.
+   * @private
+   */
+  private readonly handleSchemeChange = () => {
+    if (this.selection === "system") {
+      this.apply()
+    }
+  }
+
+  /**
+   * Reads the persisted selection, ignoring unknown themes and unavailable
+   * storage.
+   * @private
+   */
+  private read(): ThemeSelection<TTheme> | undefined {
+    let stored: string | null | undefined
+    try {
+      stored = this.storage?.getItem(this.options.storageKey ?? defaultStorageKey)
+    } catch {
+      return undefined
+    }
+    return stored && this.isSelection(stored) ? stored : undefined
+  }
+
+  /**
+   * Persists the selection. Storage may throw when full or in private
+   * browsing, the selection then only lasts for the page.
+   * @private
+   */
+  private write(selection: ThemeSelection<TTheme>): void {
+    try {
+      this.storage?.setItem(this.options.storageKey ?? defaultStorageKey, selection)
+    } catch {
+      // The theme is applied regardless
+    }
+  }
+
+  /**
+   * @private
+   */
+  private isSelection(value: string): value is ThemeSelection<TTheme> {
+    return (value === "system" && !!this.options.system) || Object.prototype.hasOwnProperty.call(this.themes, value)
+  }
+
+  /**
+   * Resolves "system" to the theme matching the color scheme preference.
+   * @private
+   */
+  private resolve(selection: ThemeSelection<TTheme>): TTheme {
+    const { system } = this.options
+    if (selection !== "system") return selection
+    return this.media?.matches ? system!.dark : system!.light
+  }
+
+  /**
+   * Writes the resolved theme on the target, removing the custom properties
+   * of the previous theme it does not define, and notifies the change.
+   * @private
+   */
+  private apply(): void {
+    const theme = this.theme
+    const previous = this.applied
+    const { attribute = "data-theme", colorSchemes = {} } = this.options
+    const properties = toProperties(this.themes[theme])
+
+    if (this.target) {
+      const { style } = this.target
+      for (const property of Object.keys(toProperties(previous ? this.themes[previous] : {}))) {
+        if (!(property in properties)) style.removeProperty(property)
+      }
+      for (const [property, value] of Object.entries(properties)) {
+        style.setProperty(property, value)
+      }
+      if (attribute !== false) this.target.setAttribute(attribute, theme)
+      style.colorScheme = (colorSchemes as Record<string, string | undefined>)[theme] ?? ""
+    }
+
+    this.applied = theme
+    if (previous === theme) return
+
+    const change: ThemeChange<TTheme> = { selected: this.selection, theme, previous }
+    this.listeners.forEach((listener) => listener(change))
+    this.target?.dispatchEvent(new CustomEvent("themechange", { detail: change }))
+  }
+}
+
+/**
+ * Returns `localStorage` when available, as accessing it throws in some
+ * privacy modes.
+ */
+function defaultStorage(): ThemeStorage | undefined {
+  try {
+    return globalThis.localStorage ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Turns the keys of a generated schema into custom property names.
+ */
+function toProperties(schema: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [toCustomProperty(key), String(value)]))
+}
+
+/**
+ * Renders an inline script applying the persisted or system theme before
+ * the page is painted, preventing a flash of the wrong theme on server
+ * rendered pages. Place it in a `<script>` tag at the top of `<head>`; the
+ * runtime takes over once loaded.
+ *
+ * @param options - Themes, system themes, attribute and storage key shared with the runtime
+ * @returns The script contents, without the `<script>` tag
+ *
+ * @example
+ * ```ts
+ * const html = `<script>${themeBootstrapScript({ themes, system: { light: "light", dark: "dark" } })}</script>`
+ * ```
+ */
+function themeBootstrapScript<TTheme extends string>(options: ThemeRuntimeThemes<TTheme>): string {
+  const themes = Object.fromEntries(
+    Object.entries<Record<string, string>>(options.themes).map(([name, schema]) => [name, toProperties(schema)]),
+  )
+  const config = {
+    themes,
+    system: options.system ?? null,
+    schemes: options.colorSchemes ?? {},
+    fallback: options.defaultTheme ?? (options.system ? "system" : Object.keys(themes)[0]),
+    attribute: options.attribute ?? "data-theme",
+    key: options.storageKey ?? defaultStorageKey,
+  }
+  // Escape "<" so that theme values can never close the surrounding script tag
+  const json = JSON.stringify(config).replace(/</g, "\\u003c")
+
+  return [
+    "(function(c){try{",
+    "var s=null;try{s=localStorage.getItem(c.key)}catch(e){}",
+    'var t=s&&(c.themes.hasOwnProperty(s)||(s==="system"&&c.system))?s:c.fallback;',
+    `if(t==="system")t=matchMedia("${darkSchemeQuery}").matches?c.system.dark:c.system.light;`,
+    "var p=c.themes[t],e=document.documentElement;",
+    "for(var k in p)e.style.setProperty(k,p[k]);",
+    "if(c.attribute)e.setAttribute(c.attribute,t);",
+    "if(c.schemes[t])e.style.colorScheme=c.schemes[t]",
+    `}catch(e){}})(${json})`,
+  ].join("")
+}
+
+export { themeBootstrapScript, ThemeRuntime }
+export type { ThemeChange, ThemeRuntimeOptions, ThemeRuntimeThemes, ThemeSelection, ThemeStorage }
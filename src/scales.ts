@@ -0,0 +1,88 @@
+import type { RgbColor } from "./color"
+import { clamp, oklchToRgb, rgbToOklch, roundRgb } from "./color"
+
+/**
+ * Built-in scale layouts: Tailwind-style steps from 50 (lightest) to 950
+ * (darkest), and Material-style tones from 0 (black) to 100 (white).
+ */
+const scalePresets = {
+  tailwind: { steps: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950], lightness: [0.97, 0.28] },
+  material: { steps: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100], lightness: [0, 1] },
+} as const
+
+/**
+ * Name of a built-in scale layout.
+ */
+type ScalePreset = keyof typeof scalePresets
+
+/**
+ * Steps of a scale, either a built-in layout or a list of numbers.
+ */
+type ScaleSteps = ScalePreset | readonly number[]
+
+/**
+ * Resolves the step numbers of a scale.
+ *
+ * @template TSteps - The scale layout or its steps
+ *
+ * @example
+ * ```ts
+ * type Steps = ScaleStep<"material"> // 0 | 10 | 20 | ... | 99 | 100
+ * ```
+ */
+type ScaleStep<TSteps extends ScaleSteps> = TSteps extends ScalePreset
+  ? { [P in ScalePreset]: (typeof scalePresets)[P]["steps"][number] }[TSteps]
+  : TSteps extends readonly (infer S extends number)[]
+    ? S
+    : never
+
+/**
+ * Options shaping a generated scale.
+ *
+ * @template TSteps - The scale layout or its steps
+ */
+type ScaleOptions<TSteps extends ScaleSteps = ScaleSteps> = {
+  /** Layout or steps of the scale (default "tailwind") */
+  steps?: TSteps
+  /** OKLCH lightness of the lowest and highest steps (default from the layout, [0.97, 0.28] for custom steps) */
+  lightness?: readonly [number, number]
+  /** Easing of the lightness between both ends, from and to the 0-1 range (default linear) */
+  curve?: (t: number) => number
+  /** How much chroma fades toward black and white, 0 keeping the seed chroma (default 0.8) */
+  falloff?: number
+}
+
+/**
+ * Generates a tonal scale from a seed color. Every step keeps the hue of the
+ * seed, takes its OKLCH lightness from the lightness curve, and its chroma
+ * from the seed chroma faded toward the extremes. Steps out of the sRGB gamut
+ * are mapped back by reducing their chroma.
+ *
+ * @param seed - Color giving its hue and chroma to the scale
+ * @param options - Layout, lightness curve and chroma falloff
+ * @returns The color of every step, in ascending step order
+ *
+ * @example
+ * ```ts
+ * generateScale({ r: 51, g: 102, b: 255 }, { steps: "material" })
+ * // [{ step: 0, color: { r: 0, g: 0, b: 0 } }, ..., { step: 100, color: { r: 255, g: 255, b: 255 } }]
+ * ```
+ */
+function generateScale(seed: RgbColor, options: ScaleOptions = {}): Array<{ step: number; color: RgbColor }> {
+  const { steps = "tailwind", curve = (t: number) => t, falloff = 0.8 } = options
+  const preset = typeof steps === "string" ? scalePresets[steps] : undefined
+  const values = [...(preset?.steps ?? (steps as readonly number[]))].sort((a, b) => a - b)
+  const [from, to] = options.lightness ?? preset?.lightness ?? scalePresets.tailwind.lightness
+  const { c, h } = rgbToOklch(seed)
+
+  const first = values[0]
+  const range = values[values.length - 1] - first || 1
+  return values.map((step) => {
+    const l = clamp(from + (to - from) * curve((step - first) / range))
+    const chroma = c * clamp(1 - falloff * (2 * l - 1) ** 2)
+    return { step, color: roundRgb(oklchToRgb({ l, c: chroma, h, alpha: seed.a })) }
+  })
+}
+
+export { generateScale, scalePresets }
+export type { ScaleOptions, ScalePreset, ScaleStep, ScaleSteps }
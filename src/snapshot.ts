@@ -0,0 +1,170 @@
+import type { TokenValue } from "./aliases"
+import type { ContrastPair, ContrastTarget } from "./contrast"
+import type { TokenMetadata } from "./dtcg"
+import type { BuiltinVariants, StateLayerDefinition, TokenName, VariantTargets } from "./index"
+import type { ModeDefinition } from "./modes"
+import type { DesignTokens, TokenUnits } from "./tokens"
+
+/**
+ * Version of the snapshots taken by this release. Older snapshots are
+ * migrated up to it when loaded.
+ */
+const snapshotVersion = 1
+
+/**
+ * A variant as stored in a snapshot: state layers are stored whole, while
+ * transformations only keep their targets, along with the name of the
+ * built-in variant they come from. Other transformations are supplied again
+ * when the snapshot is loaded.
+ *
+ * @template TKey - The theme token names
+ */
+type SnapshotVariant<TKey extends string = TokenName> =
+  | StateLayerDefinition<TKey>
+  | (VariantTargets<TKey> & {
+      /** Built-in variant providing the transformation */
+      builtin?: BuiltinVariants
+    })
+
+/**
+ * Serializable definition of a theme manager, as returned by `toJSON()`.
+ *
+ * @template TKey - The theme token names
+ *
+ * @example
+ * ```ts
+ * const snapshot: ThemeSnapshot = {
+ *   version: 1,
+ *   hash: "ff5743e311e84db9",
+ *   colors: { "button.bg": "#3366ff", "button.fg": "#ffffff" },
+ *   output: { prefix: "--", divider: "-" },
+ *   scope: ["bg", "fg"],
+ *   variants: { hover: { scope: ["bg"], layer: { opacity: 0.08 } } },
+ * }
+ * ```
+ */
+type ThemeSnapshot<TKey extends TokenName = TokenName> = {
+  /** Snapshot format version */
+  version: number
+  /** Content hash, changing with any setting affecting the generated output */
+  hash: string
+  colors: Record<TKey, TokenValue<TKey>>
+  output: { prefix: string; divider: string }
+  scope: string[]
+  /** Variants, the built-in ones when unset */
+  variants?: Record<string, SnapshotVariant<TKey>>
+  skipVariants?: TKey[]
+  modes?: Record<string, ModeDefinition<TKey>>
+  pairs?: Array<ContrastPair<TKey>>
+  correctContrast?: ContrastTarget
+  metadata?: { [key in TKey]?: TokenMetadata }
+  tokens?: DesignTokens
+  units?: TokenUnits
+}
+
+/**
+ * Upgrades a snapshot by one version. The returned snapshot receives the
+ * next version number.
+ *
+ * @example
+ * ```ts
+ * // Version 0 stored the prefix at the top level
+ * const migration: SnapshotMigration = ({ prefix, ...snapshot }) => ({ ...snapshot, output: { prefix, divider: "." } })
+ * ```
+ */
+type SnapshotMigration = (snapshot: Record<string, any>) => Record<string, any>
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ */
+type SnapshotMigrations = Record<number, SnapshotMigration>
+
+/**
+ * Migrations of the snapshots taken by previous releases.
+ */
+const snapshotMigrations: SnapshotMigrations = {}
+
+/**
+ * Upgrades a snapshot to the current version, applying one migration per
+ * version.
+ *
+ * @template TKey - The theme token names
+ * @param snapshot - Snapshot taken by any release
+ * @param migrations - Migrations keyed by the version they upgrade from (default the built-in ones)
+ * @returns The snapshot in the current format, trusted to hold the given tokens
+ * @throws When the snapshot has no version, is newer than this release, or misses a migration
+ *
+ * @example
+ * ```ts
+ * migrateSnapshot({ version: 0, colors, prefix: "--" }, { 0: ({ prefix, ...s }) => ({ ...s, output: { prefix } }) })
+ * // { version: 1, colors, output: { prefix: "--" } }
+ * ```
+ */
+function migrateSnapshot<TKey extends TokenName = TokenName>(
+  snapshot: Record<string, any>,
+  migrations: SnapshotMigrations = snapshotMigrations,
+): ThemeSnapshot<TKey> {
+  const { version } = snapshot ?? {}
+  if (typeof version !== "number") {
+    throw new Error("[Theme-Manager]: Snapshot has no version.")
+  }
+  if (version > snapshotVersion) {
+    throw new Error(
+      `[Theme-Manager]: Snapshot version ${version} is newer than the supported version ${snapshotVersion}.`,
+    )
+  }
+
+  let migrated = snapshot
+  for (let from = version; from < snapshotVersion; from++) {
+    const migration = migrations[from]
+    if (!migration) {
+      throw new Error(`[Theme-Manager]: Snapshot version ${from} has no migration to version ${from + 1}.`)
+    }
+    migrated = { ...migration(migrated), version: from + 1 }
+  }
+  return migrated as ThemeSnapshot<TKey>
+}
+
+/**
+ * Sorts object keys recursively, so equal contents serialize identically.
+ */
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonical)
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map((key) => [key, canonical(record[key])]),
+    )
+  }
+  return value
+}
+
+/**
+ * Hashes the content of a snapshot with 64-bit FNV-1a, ignoring its version,
+ * its previous hash and the order of its keys.
+ *
+ * @param snapshot - Snapshot, with or without version and hash
+ * @returns The hash, as 16 hexadecimal digits
+ *
+ * @example
+ * ```ts
+ * hashSnapshot(theme.toJSON()) === theme.toJSON().hash // true
+ * ```
+ */
+function hashSnapshot(snapshot: Record<string, unknown>): string {
+  const content = Object.fromEntries(Object.entries(snapshot).filter(([key]) => key !== "version" && key !== "hash"))
+  const text = JSON.stringify(canonical(content))
+  let hash = 0xcbf29ce484222325n
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i))
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, "0")
+}
+
+export { hashSnapshot, migrateSnapshot, snapshotMigrations, snapshotVersion }
+export type { SnapshotMigration, SnapshotMigrations, SnapshotVariant, ThemeSnapshot }
@@ -0,0 +1,129 @@
+import type { Exporter, ExportEntry } from "./exporters"
+import { toCustomProperty } from "./exporters"
+
+/**
+ * Nested Tailwind color palette: each token namespace becomes an object, and
+ * tokens with variants hold their own color under `DEFAULT`.
+ *
+ * @example
+ * ```ts
+ * const colors: TailwindColors = {
+ *   button: { bg: { DEFAULT: "var(--button-bg)", lighter: "var(--button-bg-lighter)" } },
+ * }
+ * ```
+ */
+type TailwindColors = { [name: string]: string | TailwindColors }
+
+/**
+ * Tailwind preset extending the theme colors, for the `presets` option of a
+ * Tailwind configuration file.
+ */
+type TailwindPreset = {
+  theme: { extend: { colors: TailwindColors } }
+}
+
+/**
+ * Options for the Tailwind preset and its exporters.
+ */
+type TailwindOptions = {
+  /** Add the exported color as fallback of each custom property, e.g. `var(--button-bg, #3366ff)` (default false) */
+  fallback?: boolean
+}
+
+/**
+ * Options for rendering a Tailwind configuration file.
+ */
+type TailwindConfigExportOptions = TailwindOptions & {
+  /** Module syntax of the configuration file (default "esm") */
+  module?: "esm" | "cjs"
+}
+
+/**
+ * Options for rendering a Tailwind CSS-first `@theme` block.
+ */
+type TailwindThemeExportOptions = TailwindOptions & {
+  /** Emit `@theme inline`, resolving the custom properties where utilities are used (default true) */
+  inline?: boolean
+}
+
+/**
+ * Path of an entry in the Tailwind palette: its token segments, followed by
+ * its variant name.
+ */
+const palettePath = ({ token, variant }: ExportEntry) => (variant ? [...token.split("."), variant] : token.split("."))
+
+const colorReference = ({ key, value }: ExportEntry, { fallback }: TailwindOptions) =>
+  fallback ? `var(${toCustomProperty(key)}, ${value})` : `var(${toCustomProperty(key)})`
+
+/**
+ * Builds a nested Tailwind palette from generated entries. Every color points
+ * at the custom property generated for it, so switching the variables at
+ * runtime switches the utilities too.
+ *
+ * @param entries - Generated entries, with their formatted keys
+ * @param options - Fallback values
+ * @returns The nested palette
+ *
+ * @example
+ * ```ts
+ * tailwindColors([
+ *   { key: "--button-bg", token: "button.bg", value: "#3366ff" },
+ *   { key: "--button-bg-lighter", token: "button.bg", variant: "lighter", value: "#5c85ff" },
+ * ])
+ * // { button: { bg: { DEFAULT: "var(--button-bg)", lighter: "var(--button-bg-lighter)" } } }
+ * ```
+ */
+function tailwindColors(entries: ExportEntry[], options: TailwindOptions = {}): TailwindColors {
+  const colors: TailwindColors = {}
+  const withVariants = new Set(entries.filter(({ variant }) => variant).map(({ token }) => token))
+
+  // Design tokens have no place in the palette
+  for (const entry of entries.filter(({ category }) => !category)) {
+    const path = palettePath(entry)
+    if (!entry.variant && withVariants.has(entry.token)) {
+      path.push("DEFAULT")
+    }
+
+    let group = colors
+    for (const name of path.slice(0, -1)) {
+      const child = group[name]
+      // A token sharing its name with a namespace keeps its color as the namespace default
+      group = group[name] = typeof child === "string" ? { DEFAULT: child } : (child ?? {})
+    }
+    const name = path[path.length - 1]
+    const target = group[name]
+    // Namespaces created by earlier tokens receive the color as their default
+    if (typeof target === "object") {
+      target.DEFAULT = colorReference(entry, options)
+    } else {
+      group[name] = colorReference(entry, options)
+    }
+  }
+
+  return colors
+}
+
+const tailwindConfigExporter: Exporter<TailwindConfigExportOptions> = {
+  extension: "js",
+  export: (entries, options = {}) => {
+    const preset: TailwindPreset = { theme: { extend: { colors: tailwindColors(entries, options) } } }
+    const exported = options.module === "cjs" ? "module.exports =" : "export default"
+    return `${exported} ${JSON.stringify(preset, null, 2)}\n`
+  },
+}
+
+const tailwindThemeExporter: Exporter<TailwindThemeExportOptions> = {
+  extension: "css",
+  export: (entries, options = {}) => {
+    const { inline = true } = options
+    const declarations = entries
+      .filter(({ category }) => !category)
+      .map(
+        (entry) => `  ${toCustomProperty(`color-${palettePath(entry).join("-")}`)}: ${colorReference(entry, options)};`,
+      )
+    return `@theme${inline ? " inline" : ""} {\n${declarations.join("\n")}\n}\n`
+  },
+}
+
+export { tailwindColors, tailwindConfigExporter, tailwindThemeExporter }
+export type { TailwindColors, TailwindConfigExportOptions, TailwindOptions, TailwindPreset, TailwindThemeExportOptions }
@@ -0,0 +1,334 @@
+import { parseReference } from "./aliases"
+import type { Logger, TokenName } from "./index"
+
+/**
+ * Category of a non-color design token, choosing how its value is read and
+ * serialized.
+ */
+type TokenCategory = "spacing" | "radius" | "fontFamily" | "fontSize" | "fontWeight" | "shadow" | "duration"
+
+/**
+ * A length: a number of pixels, or a string in `px` or `rem`.
+ */
+type Dimension = number | `${number}px` | `${number}rem`
+
+/**
+ * A duration: a number of milliseconds, or a string in `ms` or `s`.
+ */
+type Duration = number | `${number}ms` | `${number}s`
+
+/**
+ * A single box shadow layer. The color is a CSS color, or a reference to a
+ * color token or variant (`{text.fg}`, `{text.fg.darker}`).
+ *
+ * @example
+ * ```ts
+ * const layer: ShadowLayer = { x: 0, y: 4, blur: 12, color: "{shadow.color}" }
+ * ```
+ */
+type ShadowLayer = {
+  x: Dimension
+  y: Dimension
+  /** Blur radius (default 0) */
+  blur?: Dimension
+  /** Spread radius (default 0) */
+  spread?: Dimension
+  color: string
+  inset?: boolean
+}
+
+/**
+ * Values accepted by each token category.
+ */
+type TokenCategoryValues = {
+  spacing: Dimension
+  radius: Dimension
+  fontFamily: string | readonly string[]
+  fontSize: Dimension
+  fontWeight: number | "normal" | "bold" | "lighter" | "bolder"
+  shadow: ShadowLayer | readonly ShadowLayer[]
+  duration: Duration
+}
+
+/**
+ * Non-color design tokens, grouped by category.
+ *
+ * @template TKey - The design token names
+ *
+ * @example
+ * ```ts
+ * const tokens: DesignTokens<"space.md" | "font.body" | "shadow.card"> = {
+ *   spacing: { "space.md": 16 },
+ *   fontFamily: { "font.body": ["Inter", "system-ui", "sans-serif"] },
+ *   shadow: { "shadow.card": { x: 0, y: 1, blur: 3, color: "{shadow.color}" } },
+ * }
+ * ```
+ */
+type DesignTokens<TKey extends string = TokenName> = {
+  [C in TokenCategory]?: { [key in TKey]?: TokenCategoryValues[C] }
+}
+
+/**
+ * Units of the serialized design tokens.
+ */
+type TokenUnits = {
+  /** Unit of every spacing, radius, font size and shadow length, kept as written when unset */
+  dimension?: "px" | "rem"
+  /** Pixels in `1rem`, used by the conversions (default 16) */
+  baseFontSize?: number
+}
+
+/**
+ * Serializers of each token category, receiving shadows with their color
+ * references already resolved.
+ *
+ * @example
+ * ```ts
+ * const serializers: TokenSerializers = {
+ *   duration: (value) => `${typeof value === "number" ? value / 1000 : parseFloat(value)}s`,
+ * }
+ * ```
+ */
+type TokenSerializers = {
+  [C in TokenCategory]?: (value: TokenCategoryValues[C], token: string) => string
+}
+
+/**
+ * A serialized design token.
+ */
+type DesignTokenEntry = {
+  token: string
+  category: TokenCategory
+  value: string
+  /** Value in the DTCG format of its type, absent when the format cannot express it (e.g. `bolder`) */
+  dtcgValue?: unknown
+}
+
+const dimensionPattern = /^(-?\d*\.?\d+)(px|rem)$/
+const durationPattern = /^(\d*\.?\d+)(ms|s)$/
+
+/**
+ * Converts a length to the requested unit, keeping strings as written when
+ * no unit is requested.
+ *
+ * @param value - Number of pixels, or a string in `px` or `rem`
+ * @param units - Output unit and base font size
+ * @returns The CSS length, or `undefined` when the value is not a length
+ *
+ * @example
+ * ```ts
+ * formatDimension(24, { dimension: "rem" }) // "1.5rem"
+ * formatDimension("2rem", { dimension: "px", baseFontSize: 10 }) // "20px"
+ * ```
+ */
+function formatDimension(value: Dimension, units: TokenUnits = {}): string | undefined {
+  const { dimension, baseFontSize = 16 } = units
+  const match = typeof value === "string" ? dimensionPattern.exec(value.trim()) : undefined
+  if (typeof value !== "number" && !match) {
+    return undefined
+  }
+  if (typeof value === "string" && !dimension) {
+    return value.trim()
+  }
+
+  const pixels = typeof value === "number" ? value : match![2] === "rem" ? +match![1] * baseFontSize : +match![1]
+  if (pixels === 0) {
+    return "0"
+  }
+  return dimension === "rem" ? `${+(pixels / baseFontSize).toFixed(4)}rem` : `${+pixels.toFixed(4)}px`
+}
+
+/**
+ * Serializers used for the categories without a custom one.
+ */
+function defaultSerializers(units: TokenUnits): Required<TokenSerializers> {
+  const dimension = (value: Dimension) => formatDimension(value, units)!
+  return {
+    spacing: dimension,
+    radius: dimension,
+    fontSize: dimension,
+    fontFamily: (value) =>
+      typeof value === "string"
+        ? value
+        : value.map((family) => (/^[\w-]+$/.test(family) ? family : JSON.stringify(family))).join(", "),
+    fontWeight: (value) => String(value),
+    shadow: (value) =>
+      (Array.isArray(value) ? value : [value])
+        .map(({ x, y, blur = 0, spread = 0, color, inset }: ShadowLayer) =>
+          [inset && "inset", dimension(x), dimension(y), dimension(blur), dimension(spread), color]
+            .filter(Boolean)
+            .join(" "),
+        )
+        .join(", "),
+    duration: (value) => (typeof value === "number" ? `${value}ms` : value.trim()),
+  }
+}
+
+const fontWeights: Record<string, number> = { normal: 400, bold: 700 }
+
+/**
+ * Turns a CSS length or duration into a DTCG `{ value, unit }` object.
+ */
+const unitValue = (css: string, pattern: RegExp, zeroUnit: string) => {
+  const match = pattern.exec(css)
+  return match ? { value: +match[1], unit: match[2] } : css === "0" ? { value: 0, unit: zeroUnit } : undefined
+}
+
+/**
+ * Writes a validated value in the DTCG format of its category, dimensions
+ * in the configured unit and shadow colors already resolved.
+ */
+function dtcgValue(category: TokenCategory, value: unknown, units: TokenUnits): unknown {
+  const dimension = (length: Dimension) => unitValue(formatDimension(length, units)!, dimensionPattern, "px")
+
+  switch (category) {
+    case "spacing":
+    case "radius":
+    case "fontSize":
+      return dimension(value as Dimension)
+    case "duration":
+      return typeof value === "number"
+        ? { value, unit: "ms" }
+        : unitValue((value as string).trim(), durationPattern, "ms")
+    case "fontFamily":
+      return value
+    case "fontWeight":
+      return typeof value === "number" ? value : fontWeights[value as string]
+    case "shadow": {
+      const layers = (Array.isArray(value) ? value : [value]).map(
+        ({ x, y, blur = 0, spread = 0, color, inset }: ShadowLayer) => ({
+          color,
+          offsetX: dimension(x),
+          offsetY: dimension(y),
+          blur: dimension(blur),
+          spread: dimension(spread),
+          ...(inset && { inset }),
+        }),
+      )
+      return Array.isArray(value) ? layers : layers[0]
+    }
+  }
+}
+
+/**
+ * Checks a value against its category, reporting the reason it is rejected.
+ */
+function invalidValue(category: TokenCategory, value: unknown): string | undefined {
+  const dimension = (length: unknown) =>
+    (typeof length === "number" && Number.isFinite(length)) ||
+    (typeof length === "string" && dimensionPattern.test(length.trim()))
+
+  switch (category) {
+    case "spacing":
+    case "radius":
+    case "fontSize":
+      return dimension(value) ? undefined : "is not a length in px or rem"
+    case "duration":
+      return (typeof value === "number" && value >= 0) || (typeof value === "string" && durationPattern.test(value))
+        ? undefined
+        : "is not a duration in ms or s"
+    case "fontFamily":
+      return typeof value === "string" || (Array.isArray(value) && value.every((family) => typeof family === "string"))
+        ? undefined
+        : "is not a font family or a list of them"
+    case "fontWeight":
+      return typeof value === "number" || ["normal", "bold", "lighter", "bolder"].includes(value as string)
+        ? undefined
+        : "is not a font weight"
+    case "shadow": {
+      const layers = Array.isArray(value) ? value : [value]
+      const valid = layers.every(
+        (layer) =>
+          typeof layer === "object" &&
+          !!layer &&
+          typeof layer.color === "string" &&
+          [layer.x, layer.y].every(dimension) &&
+          [layer.blur ?? 0, layer.spread ?? 0].every(dimension),
+      )
+      return valid ? undefined : "is not a shadow"
+    }
+  }
+}
+
+/**
+ * Serializes design tokens, in category order. Invalid values, unknown
+ * categories and shadow colors referencing unknown tokens are reported
+ * through the logger and skipped.
+ *
+ * @param tokens - Design tokens grouped by category
+ * @param options - Units, custom serializers, color reference resolution and logger
+ * @returns The serialized tokens, along with their DTCG values
+ *
+ * @example
+ * ```ts
+ * serializeTokens(
+ *   { spacing: { "space.md": 16 }, shadow: { "shadow.card": { x: 0, y: 1, blur: 3, color: "{text.fg}" } } },
+ *   { units: { dimension: "rem" }, resolveColor: (token) => colors[token], logger: console },
+ * )
+ * // [
+ * //   { token: "space.md", category: "spacing", value: "1rem", dtcgValue: { value: 1, unit: "rem" } },
+ * //   { token: "shadow.card", category: "shadow", value: "0 0.0625rem 0.1875rem 0 #333333", dtcgValue: { ... } },
+ * // ]
+ * ```
+ */
+function serializeTokens(
+  tokens: DesignTokens<string>,
+  options: {
+    units?: TokenUnits
+    serializers?: TokenSerializers
+    resolveColor: (token: string) => string | undefined
+    logger: Logger
+  },
+): DesignTokenEntry[] {
+  const { units = {}, serializers = {}, resolveColor, logger } = options
+  const defaults = defaultSerializers(units)
+  const entries: DesignTokenEntry[] = []
+
+  for (const [category, values] of Object.entries(tokens) as Array<[TokenCategory, Record<string, unknown>]>) {
+    if (!(category in defaults)) {
+      logger.warn(`Token category ${category} is not supported. Skipping...`)
+      continue
+    }
+
+    for (const [token, value] of Object.entries(values ?? {})) {
+      const reason = invalidValue(category, value)
+      if (reason) {
+        logger.warn(`Token ${token} ${reason}. Skipping...`)
+        continue
+      }
+
+      let input = value
+      if (category === "shadow") {
+        const layers = (Array.isArray(value) ? value : [value]) as ShadowLayer[]
+        const resolved = layers.map((layer) => {
+          const reference = parseReference(layer.color)
+          return { ...layer, color: reference ? resolveColor(reference) : layer.color }
+        })
+        const broken = layers.find((_, i) => resolved[i].color === undefined)
+        if (broken) {
+          logger.warn(`Token ${token} references unknown color ${parseReference(broken.color)}. Skipping...`)
+          continue
+        }
+        input = Array.isArray(value) ? resolved : resolved[0]
+      }
+
+      const serialize = (serializers[category] ?? defaults[category]) as (value: unknown, token: string) => string
+      entries.push({ token, category, value: serialize(input, token), dtcgValue: dtcgValue(category, input, units) })
+    }
+  }
+
+  return entries
+}
+
+export { formatDimension, serializeTokens }
+export type {
+  DesignTokenEntry,
+  DesignTokens,
+  Dimension,
+  Duration,
+  ShadowLayer,
+  TokenCategory,
+  TokenCategoryValues,
+  TokenSerializers,
+  TokenUnits,
+}
@@ -0,0 +1,173 @@
+import type { TokenValue } from "./aliases"
+import { parseReference, resolveReference } from "./aliases"
+
+/**
+ * Kind of problem found while validating a theme definition.
+ */
+type ValidationIssueCode =
+  | "invalid_json"
+  | "invalid_root"
+  | "unknown_token"
+  | "missing_token"
+  | "invalid_type"
+  | "nested_object"
+  | "invalid_color"
+  | "unknown_reference"
+  | "circular_reference"
+
+/**
+ * Problem found while validating a theme definition.
+ *
+ * @example
+ * ```ts
+ * const issue: ValidationIssue = {
+ *   path: ["button.bg"],
+ *   code: "invalid_color",
+ *   message: 'Token button.bg has an invalid color "#zzz".',
+ * }
+ * ```
+ */
+type ValidationIssue = {
+  /** Location of the problem, starting from the root of the definition */
+  path: string[]
+  /** Kind of problem */
+  code: ValidationIssueCode
+  /** Human readable description */
+  message: string
+}
+
+/**
+ * Result of validating and generating a theme definition.
+ *
+ * @template TSchema - The generated theme schema
+ * @template TColors - The token values of the definition
+ */
+type ValidationResult<TSchema, TColors = Record<string, string>> = {
+  /** Whether the definition has no issue */
+  ok: boolean
+  /** Schema generated from the valid tokens of the definition */
+  schema: TSchema
+  /** Valid tokens of the definition, e.g. to export them as overrides */
+  colors: TColors
+  /** Every problem found in the definition */
+  issues: ValidationIssue[]
+}
+
+/**
+ * Options controlling the validation of a theme definition.
+ *
+ * @template TKey - The theme token names
+ */
+type ValidationOptions<TKey extends string = string> = {
+  /** Tokens the definition must define, or true for every registered token (default none) */
+  required?: boolean | readonly TKey[]
+}
+
+/**
+ * Error thrown by strict theme managers when a definition fails validation,
+ * carrying every issue found.
+ */
+class ThemeValidationError extends Error {
+  readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    const details = issues.map(({ path, message }) => (path.length ? `${path.join(" > ")}: ${message}` : message))
+    super(`[Theme-Manager]: Theme validation failed with ${issues.length} issue(s).\n${details.join("\n")}`)
+    this.name = "ThemeValidationError"
+    this.issues = issues
+  }
+}
+
+/**
+ * Parses a JSON theme definition, reporting malformed JSON instead of throwing.
+ *
+ * @param json - The JSON string to parse
+ * @returns The parsed value, or the issue describing the syntax error
+ */
+function parseJson(json: string): { value: unknown } | { issue: ValidationIssue } {
+  try {
+    return { value: JSON.parse(json) }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    return { issue: { path: [], code: "invalid_json", message: `Invalid JSON format. ${reason}` } }
+  }
+}
+
+/**
+ * Validates a theme definition against the registered tokens: the root must
+ * be a flat object of registered tokens, each holding a parseable color or a
+ * reference resolving to one, through the definition or the base colors.
+ *
+ * @param data - The definition to validate, usually parsed from JSON
+ * @param base - Registered tokens of the theme and their base values
+ * @param isColor - Whether a string is a parseable color
+ * @param options - Tokens required in the definition
+ * @returns The valid tokens of the definition and every issue found
+ *
+ * @example
+ * ```ts
+ * validateColors({ "button.bg": "#zzz" }, { "button.bg": "#3366ff" }, isColor)
+ * // { colors: {}, issues: [{ path: ["button.bg"], code: "invalid_color", message: ... }] }
+ * ```
+ */
+function validateColors<TKey extends string>(
+  data: unknown,
+  base: Record<TKey, TokenValue<TKey>>,
+  isColor: (value: string) => boolean,
+  options: ValidationOptions<TKey> = {},
+): { colors: Partial<Record<TKey, string>>; issues: ValidationIssue[] } {
+  const tokens = new Set(Object.keys(base))
+  const colors: Partial<Record<TKey, string>> = {}
+  const issues: ValidationIssue[] = []
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    const type = Array.isArray(data) ? "array" : data === null ? "null" : typeof data
+    issues.push({ path: [], code: "invalid_root", message: `Theme must be an object of tokens, received ${type}.` })
+    return { colors, issues }
+  }
+
+  const entries = Object.entries(data)
+  for (const [token, value] of entries) {
+    const path = [token]
+    if (!tokens.has(token)) {
+      issues.push({ path, code: "unknown_token", message: `Token ${token} is not in the registry.` })
+    } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      issues.push({ path, code: "nested_object", message: `Token ${token} must be a flat color value, not an object.` })
+    } else if (typeof value !== "string") {
+      const type = Array.isArray(value) ? "array" : value === null ? "null" : typeof value
+      issues.push({ path, code: "invalid_type", message: `Token ${token} must be a string, received ${type}.` })
+    } else if (parseReference(value) === undefined && !isColor(value)) {
+      issues.push({ path, code: "invalid_color", message: `Token ${token} has an invalid color "${value}".` })
+    } else {
+      colors[token as TKey] = value
+    }
+  }
+
+  // References resolve through the definition first, then the base colors
+  const lookup: Record<string, TokenValue<string> | undefined> = { ...base, ...colors }
+  for (const token of Object.keys(colors) as TKey[]) {
+    const path = [token]
+    const report = (code: ValidationIssueCode) => (message: string) => {
+      issues.push({ path, code, message: message.replace(" Skipping...", "") })
+    }
+    const resolved = resolveReference(token, lookup, {
+      warn: report("unknown_reference"),
+      error: report("circular_reference"),
+    })
+    if (!resolved) {
+      delete colors[token]
+    }
+  }
+
+  const required = options.required === true ? [...tokens] : options.required || []
+  for (const token of required) {
+    if (!Object.prototype.hasOwnProperty.call(data, token)) {
+      issues.push({ path: [token], code: "missing_token", message: `Token ${token} is required.` })
+    }
+  }
+
+  return { colors, issues }
+}
+
+export { parseJson, ThemeValidationError, validateColors }
+export type { ValidationIssue, ValidationIssueCode, ValidationOptions, ValidationResult }
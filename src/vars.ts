@@ -0,0 +1,136 @@
+import type { ColorValue, Logger } from "./index"
+import type { Exporter, ExportEntry } from "./exporters"
+import { parseReference } from "./aliases"
+import { toCustomProperty } from "./exporters"
+
+/**
+ * CSS variable references keyed by token name, variants being appended to
+ * their token (`button.bg.hover`).
+ *
+ * @template TName - The token and variant names
+ *
+ * @example
+ * ```ts
+ * const vars: ThemeVars<"button.bg" | "button.bg.hover"> = {
+ *   "button.bg": "var(--button-bg, #3366ff)",
+ *   "button.bg.hover": "var(--button-bg-hover, #2e5ce6)",
+ * }
+ * ```
+ */
+type ThemeVars<TName extends string = string> = { readonly [name in TName]: string }
+
+/**
+ * A step of a fallback chain: a reference to another token, whose variable is
+ * tried next, or a literal CSS value ending the chain.
+ *
+ * @template TName - The token and variant names
+ */
+type VarFallback<TName extends string = string> = `{${TName}}` | ColorValue | "transparent" | "currentColor"
+
+/**
+ * Options shaping the generated variable references.
+ *
+ * @template TName - The token and variant names
+ *
+ * @example
+ * ```ts
+ * const options: VarsOptions<"button.bg" | "brand.primary"> = {
+ *   chains: { "button.bg": ["{brand.primary}", "#000000"] },
+ * }
+ * // "button.bg": "var(--button-bg, var(--brand-primary, #000000))"
+ * ```
+ */
+type VarsOptions<TName extends string = string> = {
+  /** Add the exported value as last fallback of each variable (default true) */
+  fallback?: boolean
+  /** Fallbacks tried in order before the exported value, a literal value replacing it */
+  chains?: { [name in TName]?: readonly VarFallback<TName>[] }
+}
+
+/**
+ * Options for rendering the variable references as a TypeScript module.
+ */
+type VarsExportOptions = VarsOptions & {
+  /** Name of the exported object (default "vars") */
+  name?: string
+}
+
+const entryName = ({ token, variant }: ExportEntry) => (variant ? `${token}.${variant}` : token)
+
+/**
+ * Builds the CSS variable reference of every entry, keyed by token name.
+ * Fallback chains nest the variables of the referenced tokens, and references
+ * to unknown tokens are reported through the logger and skipped.
+ *
+ * @param entries - Generated entries, with their formatted keys
+ * @param options - Fallback values and chains, and the logger
+ * @returns The variable references
+ *
+ * @example
+ * ```ts
+ * cssVars(
+ *   [
+ *     { key: "--button-bg", token: "button.bg", value: "#3366ff" },
+ *     { key: "--brand-primary", token: "brand.primary", value: "#e11d48" },
+ *   ],
+ *   { chains: { "button.bg": ["{brand.primary}"] } },
+ * )
+ * // {
+ * //   "button.bg": "var(--button-bg, var(--brand-primary, #3366ff))",
+ * //   "brand.primary": "var(--brand-primary, #e11d48)",
+ * // }
+ * ```
+ */
+function cssVars(entries: ExportEntry[], options: VarsOptions & { logger?: Logger } = {}): ThemeVars {
+  const { fallback = true, chains = {}, logger } = options
+  const keys = new Map(entries.map((entry) => [entryName(entry), entry.key]))
+  const vars: Record<string, string> = {}
+
+  for (const entry of entries) {
+    const name = entryName(entry)
+    const steps = [toCustomProperty(entry.key)]
+    let last = fallback ? entry.value : undefined
+
+    for (const step of chains[name] ?? []) {
+      const reference = parseReference(step)
+      if (!reference) {
+        last = step
+        break
+      }
+      const key = keys.get(reference)
+      if (key === undefined) {
+        logger?.warn(`Token ${name} falls back on unknown token ${reference}. Skipping...`)
+        continue
+      }
+      steps.push(toCustomProperty(key))
+    }
+
+    vars[name] = steps.reduceRight(
+      (inner, property) => (inner === undefined ? `var(${property})` : `var(${property}, ${inner})`),
+      last,
+    )!
+  }
+
+  return vars
+}
+
+const varsExporter: Exporter<VarsExportOptions> = {
+  extension: "vars.ts",
+  export: (entries, options = {}) => {
+    const { name = "vars", ...varsOptions } = options
+    const members = Object.entries(cssVars(entries, varsOptions)).map(
+      ([token, reference]) => `  ${JSON.stringify(token)}: ${JSON.stringify(reference)},`,
+    )
+    return [
+      `export const ${name} = {`,
+      ...members,
+      "} as const",
+      "",
+      `export type ThemeVar = keyof typeof ${name}`,
+      "",
+    ].join("\n")
+  },
+}
+
+export { cssVars, varsExporter }
+export type { ThemeVars, VarFallback, VarsExportOptions, VarsOptions }
@@ -0,0 +1,207 @@
+import type { RgbColor } from "./color"
+import type { ContrastEntry } from "./contrast"
+import type { Logger, TokenName } from "./index"
+import { clamp, deltaE2000, fromLinear, round, toLinear } from "./color"
+
+/**
+ * Color vision deficiency simulated on a theme: the three dichromacies and
+ * the total absence of color vision.
+ */
+type VisionDeficiency = "protanopia" | "deuteranopia" | "tritanopia" | "achromatopsia"
+
+/**
+ * Two tokens that must stay distinguishable from each other.
+ */
+type VisionPair<TKey extends string = TokenName> = readonly [TKey, TKey]
+
+/**
+ * Options for checking that tokens stay distinguishable.
+ */
+type VisionCheckOptions = {
+  /** Deficiencies to simulate (default all) */
+  deficiencies?: readonly VisionDeficiency[]
+  /** CIEDE2000 difference below which two colors are indistinguishable (default 10) */
+  threshold?: number
+  /** Severity of the deficiency, from 0 (none) to 1 (complete) (default 1) */
+  severity?: number
+}
+
+/**
+ * Two tokens that become indistinguishable under a deficiency.
+ */
+type VisionConflict = {
+  deficiency: VisionDeficiency
+  first: string
+  second: string
+  /** Formatted key of the first token */
+  firstKey: string
+  /** Formatted key of the second token */
+  secondKey: string
+  /** CIEDE2000 difference of the simulated colors */
+  deltaE: number
+  /** CIEDE2000 difference of the original colors */
+  original: number
+}
+
+/**
+ * Result of a distinguishability check.
+ */
+type VisionReport = {
+  /** True when every pair stays distinguishable under every deficiency */
+  passed: boolean
+  conflicts: VisionConflict[]
+}
+
+/**
+ * Simulation matrices of complete deficiencies, applied to linear sRGB
+ * channels: Machado et al. (2009) for the dichromacies, and luminance for
+ * achromatopsia.
+ */
+const visionMatrices: Record<VisionDeficiency, readonly number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+}
+
+const visionDeficiencies = Object.keys(visionMatrices) as VisionDeficiency[]
+
+/**
+ * Simulates how a color is perceived with a color vision deficiency. Partial
+ * severities blend the simulation with the original color.
+ *
+ * @param color - Color to simulate
+ * @param deficiency - Simulated deficiency
+ * @param severity - From 0 (none) to 1 (complete) (default 1)
+ * @returns The perceived color, keeping the alpha of the original
+ *
+ * @example
+ * ```ts
+ * simulateDeficiency({ r: 220, g: 38, b: 38 }, "deuteranopia") // { r: 143, g: 128, b: 27 }
+ * ```
+ */
+function simulateDeficiency(color: RgbColor, deficiency: VisionDeficiency, severity = 1): RgbColor {
+  const linear = [toLinear(color.r), toLinear(color.g), toLinear(color.b)]
+  const weight = clamp(severity)
+  const [r, g, b] = visionMatrices[deficiency].map((row, i) => {
+    const simulated = row.reduce((sum, factor, j) => sum + factor * linear[j], 0)
+    const blended = weight * simulated + (1 - weight) * linear[i]
+    return Math.round(fromLinear(clamp(blended)))
+  })
+  return color.a === undefined ? { r, g, b } : { r, g, b, a: color.a }
+}
+
+/**
+ * Finds the tokens expected to be told apart: every two tokens of the same
+ * namespace (`status.error` and `status.success`), except foreground and
+ * background pairs, already covered by the contrast audit.
+ *
+ * @param tokens - Registered tokens
+ * @param contrastPairs - Foreground/background pairs to leave out
+ * @returns The pairs to check
+ */
+function findVisionPairs<TKey extends string>(
+  tokens: Iterable<TKey>,
+  contrastPairs: ReadonlyArray<{ fg: string; bg: string }> = [],
+): VisionPair<TKey>[] {
+  const namespaces = new Map<string, TKey[]>()
+  for (const token of tokens) {
+    const namespace = token.slice(0, token.lastIndexOf("."))
+    namespaces.set(namespace, [...(namespaces.get(namespace) ?? []), token])
+  }
+
+  const contrast = (a: string, b: string) =>
+    contrastPairs.some(({ fg, bg }) => (fg === a && bg === b) || (fg === b && bg === a))
+
+  const pairs: VisionPair<TKey>[] = []
+  for (const group of namespaces.values()) {
+    group.forEach((first, i) => {
+      for (const second of group.slice(i + 1)) {
+        if (!contrast(first, second)) pairs.push([first, second])
+      }
+    })
+  }
+  return pairs
+}
+
+/**
+ * Checks that the base colors of every pair stay distinguishable under each
+ * simulated deficiency. Pairs already indistinguishable with normal vision
+ * are left out, and conflicts are reported through the logger.
+ *
+ * @param entries - Generated colors, only the base ones being checked
+ * @param pairs - Tokens to tell apart
+ * @param options - Deficiencies, threshold and severity
+ * @param logger - Logger reporting conflicts and unknown tokens
+ * @returns The structured report
+ */
+function checkVision(
+  entries: ContrastEntry[],
+  pairs: ReadonlyArray<VisionPair<string>>,
+  options: VisionCheckOptions,
+  logger: Logger,
+): VisionReport {
+  const { deficiencies = visionDeficiencies, threshold = 10, severity = 1 } = options
+  const base = new Map(entries.filter(({ variant }) => !variant).map((entry) => [entry.token, entry]))
+  const conflicts: VisionConflict[] = []
+
+  for (const [first, second] of pairs) {
+    const a = base.get(first)
+    const b = base.get(second)
+    if (!a || !b) {
+      logger.warn(`Vision pair ${first}/${second} has no generated color. Skipping...`)
+      continue
+    }
+
+    const original = deltaE2000(a.color, b.color)
+    if (original < threshold) {
+      continue
+    }
+
+    for (const deficiency of deficiencies) {
+      const deltaE = deltaE2000(
+        simulateDeficiency(a.color, deficiency, severity),
+        simulateDeficiency(b.color, deficiency, severity),
+      )
+      if (deltaE < threshold) {
+        conflicts.push({
+          deficiency,
+          first,
+          second,
+          firstKey: a.key,
+          secondKey: b.key,
+          deltaE: round(deltaE, 2),
+          original: round(original, 2),
+        })
+      }
+    }
+  }
+
+  for (const { deficiency, firstKey, secondKey, deltaE, original } of conflicts) {
+    logger.warn(
+      `Colors ${firstKey} and ${secondKey} are indistinguishable with ${deficiency} ` +
+        `(ΔE ${deltaE}, ${original} with normal vision, below ${threshold}).`,
+    )
+  }
+
+  return { passed: conflicts.length === 0, conflicts }
+}
+
+export { checkVision, findVisionPairs, simulateDeficiency, visionDeficiencies, visionMatrices }
+export type { VisionCheckOptions, VisionConflict, VisionDeficiency, VisionPair, VisionReport }
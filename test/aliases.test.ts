@@ -0,0 +1,77 @@
+import { toHex } from "colorus-js"
+import { describe, expect, it, vi } from "vitest"
+import { parseReference, resolveReference, ThemeManager } from "../src"
+
+const colors = {
+  "brand.primary": "#3366ff",
+  "action.bg": "{brand.primary}",
+  "button.bg": "{action.bg}",
+} as const
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors,
+    plugins: { toHex },
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    strict: true,
+  })
+
+describe("token references", () => {
+  it("should parse reference syntax", () => {
+    expect(parseReference("{brand.primary}")).toBe("brand.primary")
+    expect(parseReference("{ brand.primary }")).toBe("brand.primary")
+    expect(parseReference("#3366ff")).toBeUndefined()
+  })
+
+  it("should resolve chained aliases", () => {
+    const logger = { warn: vi.fn(), error: vi.fn() }
+    expect(resolveReference("button.bg", colors, logger)).toEqual({ value: "#3366ff", reference: "action.bg" })
+    expect(resolveReference("brand.primary", colors, logger)).toEqual({ value: "#3366ff", reference: undefined })
+  })
+
+  it("should report circular references", () => {
+    const logger = { warn: vi.fn(), error: vi.fn() }
+    const circular = { "a.bg": "{b.bg}", "b.bg": "{a.bg}" } as const
+    expect(resolveReference("a.bg", circular, logger)).toBeUndefined()
+    expect(logger.error).toHaveBeenCalledWith("Token a.bg has a circular reference through a.bg.")
+  })
+
+  it("should inline aliases in generated schemas", () => {
+    const schema = createThemeManager().generateTheme()
+    expect(schema["--button-bg"]).toBe("#3366ff")
+    expect(schema["--action-bg"]).toBe("#3366ff")
+    expect(schema["--button-bg-lighter"]).toBe(schema["--action-bg-lighter"])
+  })
+
+  it("should follow overridden targets", () => {
+    const schema = createThemeManager().generateTheme({ "brand.primary": "#000000", "button.bg": "{brand.primary}" })
+    expect(schema["--button-bg"]).toBe("#000000")
+  })
+
+  it("should throw on circular references in strict mode", () => {
+    const theme = new ThemeManager({ colors: { "a.bg": "{b.bg}", "b.bg": "{a.bg}" }, strict: true })
+    expect(() => theme.generateTheme()).toThrow(/circular reference/)
+  })
+
+  it("should preserve aliases as references in exports", () => {
+    const theme = createThemeManager()
+    const css = theme.toCSS({ aliases: "preserve" })
+    expect(css).toContain("--brand-primary: #3366ff;")
+    expect(css).toContain("--action-bg: var(--brand-primary);")
+    expect(css).toContain("--button-bg: var(--action-bg);")
+    // variants are always precomputed
+    expect(css).toMatch(/--button-bg-lighter: #[0-9a-f]{6};/)
+    expect(theme.toCSS()).toContain("--button-bg: #3366ff;")
+  })
+
+  it("should declare referenced SCSS variables first", () => {
+    const theme = new ThemeManager({
+      colors: { "button.bg": "{brand.primary}", "brand.primary": "#3366ff" },
+      variants: {},
+      output: { prefix: "--", divider: "-" },
+    })
+    const scss = theme.export("scss", { aliases: "preserve", map: false })
+    expect(scss).toBe("$brand-primary: #3366ff;\n$button-bg: $brand-primary;\n")
+    expect(theme.export("less", { aliases: "preserve" })).toContain("@button-bg: @brand-primary;")
+  })
+})
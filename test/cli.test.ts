@@ -0,0 +1,204 @@
+import { mkdtemp, readFile, rename, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { run } from "../src/cli"
+
+const config = {
+  colors: { "button.bg": "#3366ff", "text.fg": "#333333" },
+  modes: { dark: { colors: { "button.bg": "#1a3d99" } } },
+  output: { prefix: "--", divider: "-" },
+  build: { formats: ["css", "json"], outDir: "dist" },
+}
+
+let cwd: string
+let stdout: string[]
+let stderr: string[]
+
+const themix = (...args: string[]) =>
+  run(args, { cwd, stdout: (message) => stdout.push(message), stderr: (message) => stderr.push(message) })
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "themix-"))
+  stdout = []
+  stderr = []
+  await writeFile(join(cwd, "theme.json"), JSON.stringify(config))
+})
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true })
+})
+
+describe("themix", () => {
+  it("should write every configured format", async () => {
+    expect(await themix("theme.json")).toBe(0)
+    const css = await readFile(join(cwd, "dist/theme.css"), "utf8")
+    expect(css).toContain("--button-bg: #3366ff;")
+    expect(css).toContain('[data-theme="dark"] {')
+    expect(JSON.parse(await readFile(join(cwd, "dist/theme.json"), "utf8"))).toHaveProperty("--text-fg-darker")
+    expect(stdout).toEqual([`wrote ${join(cwd, "dist/theme.css")}`, `wrote ${join(cwd, "dist/theme.json")}`])
+  })
+
+  it("should override the build settings with flags", async () => {
+    expect(await themix("theme.json", "-f", "scss,ts", "-o", "out", "-n", "colors")).toBe(0)
+    expect(await readFile(join(cwd, "out/colors.scss"), "utf8")).toContain("$button-bg: #3366ff;")
+    expect(await readFile(join(cwd, "out/colors.ts"), "utf8")).toContain('export const buttonBg = "#3366ff" as const')
+  })
+
+  it("should load JS modules", async () => {
+    await writeFile(join(cwd, "theme.config.mjs"), `export default ${JSON.stringify(config)}`)
+    expect(await themix("theme.config.mjs", "-f", "json")).toBe(0)
+    expect(await readFile(join(cwd, "dist/theme.json"), "utf8")).toContain('"--button-bg": "#3366ff"')
+  })
+
+  it("should load TS modules", async () => {
+    await writeFile(
+      join(cwd, "theme.config.ts"),
+      `const theme: { colors: Record<string, string> } = ${JSON.stringify(config)}\nexport default theme`,
+    )
+    expect(await themix("theme.config.ts", "-f", "json")).toBe(0)
+    expect(await readFile(join(cwd, "dist/theme.json"), "utf8")).toContain('"--button-bg": "#3366ff"')
+  })
+
+  it("should reject modules exporting no options", async () => {
+    await writeFile(join(cwd, "theme.config.mjs"), "export const colors = {}")
+    expect(await themix("theme.config.mjs")).toBe(1)
+    expect(stderr).toEqual([
+      `error: ${join(cwd, "theme.config.mjs")} exports no ThemeManager options (expected a default or \`theme\` export).`,
+    ])
+  })
+
+  it("should fail with diagnostics when the input is invalid", async () => {
+    await writeFile(join(cwd, "customer.json"), JSON.stringify({ "button.bg": "#zzzzzz", "card.bg": "#ffffff" }))
+    expect(await themix("theme.json", "--input", "customer.json")).toBe(1)
+    expect(stderr).toEqual([
+      'error: customer.json > button.bg: Token button.bg has an invalid color "#zzzzzz".',
+      "error: customer.json > card.bg: Token card.bg is not in the registry.",
+    ])
+    expect(stdout).toEqual([])
+  })
+
+  it("should export valid inputs on top of the config colors", async () => {
+    await writeFile(join(cwd, "customer.json"), JSON.stringify({ "button.bg": "#000000" }))
+    expect(await themix("theme.json", "-i", "customer.json", "-f", "json")).toBe(0)
+    const schema = JSON.parse(await readFile(join(cwd, "dist/theme.json"), "utf8"))
+    expect(schema["--button-bg"]).toBe("#000000")
+    expect(schema["--text-fg"]).toBe("#333333")
+  })
+
+  it("should turn warnings into failures with --strict", async () => {
+    await writeFile(
+      join(cwd, "theme.json"),
+      JSON.stringify({ ...config, colors: { ...config.colors, "link.fg": "{missing.token}" } }),
+    )
+    expect(await themix("theme.json")).toBe(0)
+    expect(stderr).toEqual(["warning: Token link.fg references unknown token missing.token. Skipping..."])
+
+    stderr = []
+    expect(await themix("theme.json", "--strict")).toBe(1)
+    expect(stderr).toEqual(["error: Token link.fg references unknown token missing.token."])
+  })
+
+  it("should report contrast corrections without failing strict builds", async () => {
+    await writeFile(
+      join(cwd, "theme.json"),
+      JSON.stringify({ ...config, colors: { "text.fg": "#999999", "text.bg": "#ffffff" }, correctContrast: true }),
+    )
+    expect(await themix("theme.json", "--strict", "-f", "json")).toBe(0)
+    expect(stderr.length).toBeGreaterThan(0)
+    expect(stderr.every((message) => message.startsWith("info: Adjusted --text-fg"))).toBe(true)
+
+    stderr = []
+    await writeFile(
+      join(cwd, "theme.json"),
+      JSON.stringify({
+        ...config,
+        colors: { "text.fg": "#999999", "text.bg": "#ffffff" },
+        correctContrast: { ratio: 25 },
+      }),
+    )
+    expect(await themix("theme.json", "--strict", "-f", "json")).toBe(1)
+  })
+
+  it("should reject --strict for exported theme managers", async () => {
+    // Duck typed like the managers of another copy of the library
+    await writeFile(join(cwd, "theme.config.mjs"), "export default { export() {}, parseFromJson() {} }")
+    expect(await themix("theme.config.mjs", "--strict")).toBe(2)
+    expect(stderr[0]).toMatch(/^error: --strict only applies to configs exporting ThemeManager options/)
+    expect(stdout).toEqual([])
+  })
+
+  it("should report usage errors", async () => {
+    expect(await themix()).toBe(2)
+    expect(await themix("theme.json", "--unknown")).toBe(2)
+    expect(await themix("theme.json", "-f", "pdf")).toBe(1)
+    expect(stderr[stderr.length - 1]).toBe("error: Unknown format pdf.")
+    expect(await themix("missing.json")).toBe(1)
+  })
+
+  it("should compare configs and generated schemas", async () => {
+    await writeFile(
+      join(cwd, "next.json"),
+      JSON.stringify({ ...config, colors: { "button.bg": "#3366ff", "text.fg": "#343333", "link.fg": "#0000ee" } }),
+    )
+    expect(await themix("diff", "theme.json", "next.json")).toBe(0)
+    expect(stdout[0]).toContain("+ --link-fg: #0000ee")
+    expect(stdout[0]).toMatch(/~ --text-fg: #333333 -> #343333 \(ΔE [\d.]+, cosmetic\)/)
+
+    await themix("theme.json", "-f", "json")
+    expect(await themix("diff", "dist/theme.json", "theme.json", "--threshold", "0")).toBe(0)
+    expect(stdout[stdout.length - 1]).toBe("No changes.")
+    expect(await themix("diff", "theme.json", "next.json", "--threshold", "fast")).toBe(2)
+  })
+
+  it("should rebuild on changes in watch mode", async () => {
+    const controller = new AbortController()
+    const watching = run(["theme.json", "--watch", "-f", "json"], {
+      cwd,
+      stdout: (message) => stdout.push(message),
+      stderr: (message) => stderr.push(message),
+      signal: controller.signal,
+    })
+    await expect.poll(() => stdout.some((message) => message.startsWith("watching"))).toBe(true)
+
+    await writeFile(
+      join(cwd, "theme.json"),
+      JSON.stringify({ ...config, colors: { ...config.colors, "text.fg": "#000000" } }),
+    )
+    await expect
+      .poll(async () => JSON.parse(await readFile(join(cwd, "dist/theme.json"), "utf8"))["--text-fg"], {
+        timeout: 3000,
+      })
+      .toBe("#000000")
+
+    // Saved by rename, like many editors do
+    await writeFile(
+      join(cwd, "theme.json.tmp"),
+      JSON.stringify({ ...config, colors: { ...config.colors, "text.fg": "#111111" } }),
+    )
+    await rename(join(cwd, "theme.json.tmp"), join(cwd, "theme.json"))
+    await expect
+      .poll(async () => JSON.parse(await readFile(join(cwd, "dist/theme.json"), "utf8"))["--text-fg"], {
+        timeout: 3000,
+      })
+      .toBe("#111111")
+
+    controller.abort()
+    expect(await watching).toBe(0)
+  })
+
+  it("should exit with the code of the last build in watch mode", async () => {
+    const controller = new AbortController()
+    const watching = run(["theme.json", "--watch", "-f", "pdf"], {
+      cwd,
+      stdout: (message) => stdout.push(message),
+      stderr: (message) => stderr.push(message),
+      signal: controller.signal,
+    })
+    await expect.poll(() => stdout.some((message) => message.startsWith("watching"))).toBe(true)
+
+    controller.abort()
+    expect(await watching).toBe(1)
+    expect(stderr).toEqual(["error: Unknown format pdf."])
+  })
+})
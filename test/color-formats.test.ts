@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest"
+import type { ColorFormat } from "../src"
+import { formatColor, formatOklab, formatSerializer, inGamut, parseCssColor, rgbToOklab, ThemeManager } from "../src"
+
+const red = { r: 255, g: 0, b: 0 }
+
+describe("parseCssColor", () => {
+  it("should parse CSS Color 4 syntaxes", () => {
+    const expected = rgbToOklab(red)
+    for (const value of [
+      "oklch(62.8% 0.2577 29.23)",
+      "oklch(0.628 0.2577 29.23deg)",
+      "oklab(0.628 0.2249 0.1258)",
+      "lab(54.29% 80.8 69.89)",
+      "lch(54.29 106.84 40.85)",
+      "color(srgb 1 0 0)",
+    ]) {
+      const color = parseCssColor(value)
+      expect(color?.l).toBeCloseTo(expected.l, 2)
+      expect(color?.a).toBeCloseTo(expected.a, 2)
+      expect(color?.b).toBeCloseTo(expected.b, 2)
+    }
+  })
+
+  it("should parse alpha and missing components", () => {
+    expect(parseCssColor("oklch(50% none none / 0.5)")).toEqual({ l: 0.5, a: 0, b: 0, alpha: 0.5 })
+    expect(parseCssColor("oklab(50% 0 0 / 25%)")?.alpha).toBe(0.25)
+  })
+
+  it("should ignore other syntaxes", () => {
+    expect(parseCssColor("#ff0000")).toBeUndefined()
+    expect(parseCssColor("oklch(50% 0.1)")).toBeUndefined()
+    expect(parseCssColor("color(rec2020 1 0 0)")).toBeUndefined()
+  })
+})
+
+describe("formatOklab", () => {
+  it("should round trip through every format", () => {
+    const color = rgbToOklab(red)
+    for (const format of ["oklch", "oklab", "lab", "lch", "p3"] as const) {
+      const value = formatOklab(color, format)
+      expect(formatOklab(parseCssColor(value)!, "hex")).toBe("#ff0000")
+    }
+    expect(formatColor(red, "oklch")).toBe("oklch(62.8% 0.2577 29.23)")
+  })
+
+  it("should map colors into the target gamut", () => {
+    const p3Red = parseCssColor("color(display-p3 1 0 0)")!
+    expect(inGamut(p3Red, "srgb")).toBe(false)
+    expect(inGamut(p3Red, "p3")).toBe(true)
+    expect(formatOklab(p3Red, "hex")).toBe("#ff3428")
+    expect(formatOklab(p3Red, "p3")).toBe("color(display-p3 1 0 0)")
+  })
+})
+
+describe("ThemeManager with CSS Color 4 values", () => {
+  const createThemeManager = (warn = vi.fn(), format: ColorFormat = "hex") =>
+    new ThemeManager({
+      colors: {
+        "button.bg": "color(display-p3 1 0 0)",
+        "text.fg": "oklch(40% 0.05 250)",
+      },
+      output: { prefix: "--", divider: "-", serializer: formatSerializer(format) },
+      logger: { warn, error: vi.fn() },
+    })
+
+  it("should gamut map tokens to sRGB and report it", () => {
+    const warn = vi.fn()
+    const schema = createThemeManager(warn).generateTheme()
+    expect(schema["--button-bg"]).toBe("#ff3428")
+    expect(warn).toHaveBeenCalledWith("Token button.bg is out of the sRGB gamut, mapped to #ff3428.")
+    expect(warn).toHaveBeenCalledTimes(1)
+  })
+
+  it("should keep the original color in wide gamut exports", () => {
+    const warn = vi.fn()
+    const css = createThemeManager(warn).toCSS({ format: "p3" })
+    expect(css).toContain("--button-bg: color(display-p3 1 0 0);")
+    expect(css).toContain("--text-fg: color(display-p3 ")
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it("should keep the original color in wide gamut serializers", () => {
+    const warn = vi.fn()
+    const schema = createThemeManager(warn, "p3").generateTheme()
+    expect(schema["--button-bg"]).toBe("color(display-p3 1 0 0)")
+    expect(createThemeManager(warn, "oklch").generateTheme()["--button-bg"]).toBe(
+      formatOklab(parseCssColor("color(display-p3 1 0 0)")!, "oklch"),
+    )
+    expect(warn).not.toHaveBeenCalled()
+
+    // sRGB exports still map the color
+    expect(createThemeManager(warn, "p3").toCSS()).toContain("--button-bg: #ff3428;")
+    expect(warn).toHaveBeenCalledTimes(1)
+  })
+
+  it("should accept CSS Color 4 scale seeds", () => {
+    const scale = ThemeManager.createScale("brand", "oklch(62.8% 0.2577 29.23)", { steps: [500] })
+    expect(scale["brand.500"]).toMatch(/^#[0-9a-f]{6}$/)
+  })
+})
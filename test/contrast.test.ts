@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  apcaContrast,
+  auditContrast,
+  contrastRatio,
+  correctContrast,
+  correctEntries,
+  findContrastPairs,
+  rgbToOklch,
+  ThemeManager,
+} from "../src"
+
+const black = { r: 0, g: 0, b: 0 }
+const white = { r: 255, g: 255, b: 255 }
+
+const silentLogger = () => ({ warn: vi.fn(), error: vi.fn() })
+
+describe("contrast math", () => {
+  it("should compute WCAG contrast ratios", () => {
+    expect(contrastRatio(black, white)).toBeCloseTo(21)
+    expect(contrastRatio(white, black)).toBeCloseTo(21)
+    expect(contrastRatio(white, white)).toBe(1)
+    expect(contrastRatio({ r: 118, g: 118, b: 118 }, white)).toBeCloseTo(4.54, 2)
+  })
+
+  it("should compute APCA lightness contrast", () => {
+    expect(apcaContrast(black, white)).toBeCloseTo(106.04, 1)
+    expect(apcaContrast(white, black)).toBeCloseTo(-107.88, 1)
+    expect(apcaContrast(white, white)).toBe(0)
+  })
+})
+
+describe("auditContrast", () => {
+  it("should pair tokens sharing a namespace", () => {
+    const pairs = findContrastPairs(["text.fg", "text.bg", "card.foreground", "card.background", "button.bg"])
+    expect(pairs).toEqual([
+      { fg: "text.fg", bg: "text.bg" },
+      { fg: "card.foreground", bg: "card.background" },
+    ])
+  })
+
+  it("should audit base colors and variants", () => {
+    const entries = [
+      { key: "text-fg", token: "text.fg", color: black },
+      { key: "text-bg", token: "text.bg", color: white },
+      { key: "text-bg-darker", token: "text.bg", variant: "darker", color: { r: 40, g: 40, b: 40 } },
+    ]
+    const logger = silentLogger()
+    const report = auditContrast(entries, [{ fg: "text.fg", bg: "text.bg" }], {}, logger)
+
+    expect(report.results.map((r) => [r.foreground, r.background])).toEqual([
+      ["text-fg", "text-bg"],
+      ["text-fg", "text-bg-darker"],
+    ])
+    expect(report.results[0].ratio).toBe(21)
+    expect(report.results[0].wcag).toEqual({ AA: { normal: true, large: true }, AAA: { normal: true, large: true } })
+    expect(report.passed).toBe(false)
+    expect(report.failures).toHaveLength(1)
+    expect(logger.warn).toHaveBeenCalledTimes(1)
+  })
+
+  it("should apply the APCA threshold", () => {
+    const entries = [
+      { key: "a-fg", token: "a.fg", color: { r: 90, g: 90, b: 90 } },
+      { key: "a-bg", token: "a.bg", color: white },
+    ]
+    const pairs = [{ fg: "a.fg", bg: "a.bg" }]
+    expect(auditContrast(entries, pairs, {}, silentLogger()).passed).toBe(true)
+    expect(auditContrast(entries, pairs, { apca: 90 }, silentLogger()).passed).toBe(false)
+  })
+})
+
+describe("ThemeManager.auditContrast", () => {
+  const colors = {
+    "text.fg": "#767676",
+    "text.bg": "#ffffff",
+    "button.label": "#ffffff",
+    "button.fill": "#3366ff",
+  } as const
+
+  it("should audit automatic and declared pairs", () => {
+    const theme = new ThemeManager({
+      colors,
+      pairs: [{ fg: "button.label", bg: "button.fill" }],
+      logger: silentLogger(),
+    })
+    const report = theme.auditContrast({ variants: false })
+    expect(report.results.map((r) => `${r.fg}/${r.bg}`)).toEqual(["text.fg/text.bg", "button.label/button.fill"])
+    expect(report.results[0].passed).toBe(true)
+    expect(report.results[0].wcag.AAA.normal).toBe(false)
+  })
+
+  it("should throw on failures in strict mode", () => {
+    const theme = new ThemeManager({ colors, strict: true })
+    expect(() => theme.auditContrast({ level: "AAA" })).toThrow(/Contrast of text\.fg over text\.bg/)
+  })
+})
+
+describe("correctContrast", () => {
+  it("should keep passing colors unchanged", () => {
+    const color = { r: 51, g: 102, b: 255 }
+    expect(correctContrast(color, [white])).toEqual({ color, changed: false, passed: true })
+  })
+
+  it("should adjust lightness to the closest passing value", () => {
+    const { color, passed } = correctContrast({ r: 150, g: 150, b: 150 }, [white])
+    expect(passed).toBe(true)
+    expect(color).toEqual({ r: 118, g: 118, b: 118 })
+  })
+
+  it("should preserve the hue of chromatic colors", () => {
+    const original = { r: 120, g: 160, b: 255 }
+    const { color } = correctContrast(original, [white], { ratio: 7 })
+    expect(contrastRatio(color, white)).toBeGreaterThanOrEqual(7)
+    expect(rgbToOklch(color).h).toBeCloseTo(rgbToOklch(original).h, 0)
+  })
+
+  it("should reach APCA thresholds", () => {
+    const { color, passed } = correctContrast({ r: 100, g: 100, b: 100 }, [{ r: 20, g: 20, b: 20 }], { apca: 60 })
+    expect(passed).toBe(true)
+    expect(Math.abs(apcaContrast(color, { r: 20, g: 20, b: 20 }))).toBeGreaterThanOrEqual(60)
+  })
+
+  it("should return the closest color when the target is unreachable", () => {
+    const { passed, changed } = correctContrast({ r: 128, g: 128, b: 128 }, [white, black])
+    expect(changed).toBe(true)
+    expect(passed).toBe(false)
+  })
+
+  it("should correct foregrounds over background variants", () => {
+    const logger = { warn: vi.fn(), error: vi.fn(), info: vi.fn() }
+    const corrected = correctEntries(
+      [
+        { key: "t-fg", token: "t.fg", color: { r: 150, g: 150, b: 150 } },
+        { key: "t-fg-lighter", token: "t.fg", variant: "lighter", color: { r: 200, g: 200, b: 200 } },
+        { key: "t-bg", token: "t.bg", color: white },
+        { key: "t-bg-darker", token: "t.bg", variant: "darker", color: { r: 225, g: 225, b: 225 } },
+      ],
+      [{ fg: "t.fg", bg: "t.bg" }],
+      {},
+      logger,
+    )
+    expect(corrected.get("t-fg")).toEqual({ r: 100, g: 100, b: 100 })
+    expect(corrected.get("t-fg-lighter")).toEqual({ r: 118, g: 118, b: 118 })
+    expect(logger.info).toHaveBeenCalledWith(
+      "Adjusted t-fg from #969696 to #646464 for contrast over t-bg, t-bg-darker.",
+    )
+
+    const warn = vi.fn()
+    correctEntries(
+      [
+        { key: "t-fg", token: "t.fg", color: { r: 150, g: 150, b: 150 } },
+        { key: "t-bg", token: "t.bg", color: white },
+      ],
+      [{ fg: "t.fg", bg: "t.bg" }],
+      {},
+      { warn, error: vi.fn() },
+    )
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Adjusted t-fg from #969696 to #[0-9a-f]{6} for contrast/))
+  })
+})
+
+describe("ThemeManager contrast correction", () => {
+  it("should correct generated schemas", () => {
+    const info = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "text.fg": "#999999", "text.bg": "#ffffff" },
+      correctContrast: { ratio: 4.5 },
+      logger: { warn: vi.fn(), error: vi.fn(), info },
+      strict: true,
+    })
+    const report = theme.auditContrast()
+    expect(report.passed).toBe(true)
+    expect(info).toHaveBeenCalled()
+  })
+
+  it("should report corrections as warnings without info, even in strict mode", () => {
+    const warn = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "text.fg": "#999999", "text.bg": "#ffffff" },
+      correctContrast: { ratio: 4.5 },
+      logger: { warn, error: vi.fn() },
+      strict: true,
+    })
+    expect(theme.auditContrast().passed).toBe(true)
+    expect(warn).toHaveBeenCalledWith(
+      "Adjusted text.fg from #999999 to #636363 for contrast over text.bg, text.bg.lighter, text.bg.darker.",
+    )
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import { deltaE2000, diffThemes, formatDiff, ThemeManager } from "../src"
+
+const silentLogger = { warn: () => {}, error: () => {} }
+
+const createTheme = (colors: Record<string, string>) =>
+  new ThemeManager({
+    colors: colors as Record<"text.fg" | "text.bg", "#000000">,
+    variants: { darker: { scope: ["bg"], fn: (c) => c.darken(0.12) } },
+    output: { prefix: "--", divider: "-" },
+    logger: silentLogger,
+  })
+
+describe("deltaE2000", () => {
+  it("should score perceptual differences", () => {
+    expect(deltaE2000({ r: 51, g: 102, b: 255 }, { r: 51, g: 102, b: 255 })).toBe(0)
+    expect(deltaE2000({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(100, 0)
+    expect(deltaE2000({ r: 51, g: 51, b: 51 }, { r: 52, g: 51, b: 51 })).toBeLessThan(1)
+  })
+})
+
+describe("diffThemes", () => {
+  it("should list added, removed and changed keys", () => {
+    const diff = diffThemes(
+      {
+        entries: [
+          { key: "a.fg", token: "a.fg", color: { r: 51, g: 51, b: 51 } },
+          { key: "b.fg", token: "b.fg", color: { r: 0, g: 0, b: 0 } },
+          { key: "c.fg", token: "c.fg", color: { r: 51, g: 102, b: 255 } },
+        ],
+        pairs: [],
+      },
+      {
+        entries: [
+          { key: "a.fg", token: "a.fg", color: { r: 52, g: 51, b: 51 } },
+          { key: "c.fg", token: "c.fg", color: { r: 255, g: 0, b: 0 } },
+          { key: "d.fg", token: "d.fg", color: { r: 255, g: 255, b: 255 } },
+        ],
+        pairs: [],
+      },
+    )
+
+    expect(diff.identical).toBe(false)
+    expect(diff.added).toEqual([{ kind: "added", key: "d.fg", token: "d.fg", after: "#ffffff" }])
+    expect(diff.removed).toEqual([{ kind: "removed", key: "b.fg", token: "b.fg", before: "#000000" }])
+    expect(diff.changed.map(({ key, cosmetic }) => ({ key, cosmetic }))).toEqual([
+      { key: "a.fg", cosmetic: true },
+      { key: "c.fg", cosmetic: false },
+    ])
+  })
+
+  it("should honor the cosmetic threshold", () => {
+    const side = (r: number) => ({ entries: [{ key: "a.fg", token: "a.fg", color: { r, g: 0, b: 0 } }], pairs: [] })
+    expect(diffThemes(side(200), side(210)).changed[0].cosmetic).toBe(false)
+    expect(diffThemes(side(200), side(210), { threshold: 5 }).changed[0].cosmetic).toBe(true)
+  })
+})
+
+describe("ThemeManager.diff", () => {
+  it("should compare variants and flag contrast flips", () => {
+    const before = createTheme({ "text.fg": "#595959", "text.bg": "#ffffff" })
+    const after = createTheme({ "text.fg": "#7a7a7a", "text.bg": "#ffffff" })
+    const diff = ThemeManager.diff(before, after)
+
+    expect(diff.changed.map(({ key }) => key)).toEqual(["--text-fg"])
+    expect(diff.contrast).toEqual([
+      {
+        foreground: "--text-fg",
+        background: "--text-bg",
+        before: { ratio: 7, passed: true },
+        after: { ratio: 4.29, passed: false },
+      },
+      {
+        foreground: "--text-fg",
+        background: "--text-bg-darker",
+        before: { ratio: 5.31, passed: true },
+        after: { ratio: 3.25, passed: false },
+      },
+    ])
+    expect(formatDiff(diff)).toBe(
+      [
+        `~ --text-fg: #595959 -> #7a7a7a (ΔE ${diff.changed[0].deltaE})`,
+        "! --text-fg over --text-bg: 7:1 -> 4.29:1, now fails",
+        "! --text-fg over --text-bg-darker: 5.31:1 -> 3.25:1, now fails",
+      ].join("\n"),
+    )
+  })
+
+  it("should compare generated schemas", () => {
+    const theme = createTheme({ "text.fg": "#333333", "text.bg": "#ffffff" })
+    const schema = theme.generateTheme() as Record<string, unknown>
+    const diff = ThemeManager.diff(schema, { ...schema, "--text-bg-darker": "oklch(0.9 0 0)" })
+
+    expect(diff.changed).toMatchObject([{ key: "--text-bg-darker", token: "--text-bg-darker" }])
+    expect(ThemeManager.diff(schema, theme).identical).toBe(true)
+    expect(formatDiff(ThemeManager.diff(theme, theme))).toBe("No changes.")
+  })
+})
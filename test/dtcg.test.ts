@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest"
+import { importTokens, ThemeManager, toCssColor } from "../src"
+
+const dtcg = {
+  brand: {
+    $type: "color",
+    primary: { $value: "#3366ff", $description: "Brand color" },
+    accent: { $value: { colorSpace: "oklch", components: [0.7, 0.15, 150], alpha: 0.5 } },
+  },
+  button: {
+    bg: { $value: "{brand.primary}", $extensions: { "com.figma": { scopes: ["FRAME_FILL"] } } },
+    radius: { $value: "4px", $type: "dimension" },
+  },
+  spacing: { $value: "8px", $type: "dimension" },
+}
+
+describe("toCssColor", () => {
+  it("should convert DTCG color objects", () => {
+    expect(toCssColor("#3366ff")).toBe("#3366ff")
+    expect(toCssColor({ colorSpace: "srgb", components: [1, 0, 0], hex: "#ff0000", alpha: 0.5 })).toBe("#ff000080")
+    expect(toCssColor({ colorSpace: "display-p3", components: [1, "none", 0] })).toBe("color(display-p3 1 none 0)")
+    expect(toCssColor({ colorSpace: "rec2020", components: [1, 0, 0] })).toBeUndefined()
+  })
+})
+
+describe("importTokens", () => {
+  it("should import DTCG color tokens with their metadata", () => {
+    const logger = { warn: vi.fn(), error: vi.fn() }
+    const { colors, metadata } = importTokens(JSON.stringify(dtcg), { logger })
+    expect(colors).toEqual({
+      "brand.primary": "#3366ff",
+      "brand.accent": "oklch(0.7 0.15 150 / 0.5)",
+      "button.bg": "{brand.primary}",
+    })
+    expect(metadata["brand.primary"]).toEqual({ type: "color", description: "Brand color" })
+    expect(metadata["button.bg"]).toEqual({ type: "color", extensions: { "com.figma": { scopes: ["FRAME_FILL"] } } })
+    expect(logger.warn).toHaveBeenCalledWith("Token button.radius has type dimension, not color. Skipping...")
+    expect(logger.warn).toHaveBeenCalledWith("Token spacing is not namespaced. Skipping...")
+  })
+
+  it("should import Style Dictionary tokens", () => {
+    const { colors, metadata } = importTokens({
+      color: {
+        base: { blue: { value: "#3366ff", comment: "Base blue" } },
+        button: { bg: { value: "{color.base.blue.value}" }, border: { value: "{size.border}" } },
+      },
+      size: { border: { value: "1px", type: "dimension" } },
+    })
+    expect(colors).toEqual({ "color.base.blue": "#3366ff", "color.button.bg": "{color.base.blue}" })
+    expect(metadata["color.base.blue"].description).toBe("Base blue")
+  })
+})
+
+describe("DTCG exporters", () => {
+  const createThemeManager = () =>
+    new ThemeManager({
+      ...importTokens(dtcg),
+      variants: { lighter: { scope: ["bg"], fn: (c) => c.lighten(0.1) } },
+    })
+
+  it("should export the schema with variants and metadata", () => {
+    const tokens = JSON.parse(createThemeManager().export("dtcg", { aliases: "preserve" }))
+    expect(tokens.brand.primary).toEqual({ $value: "#3366ff", $type: "color", $description: "Brand color" })
+    expect(tokens.button.bg).toEqual({
+      $value: "{brand.primary}",
+      $type: "color",
+      $extensions: { "com.figma": { scopes: ["FRAME_FILL"] } },
+    })
+    expect(tokens.button["bg-lighter"].$extensions.themix).toEqual({ token: "button.bg", variant: "lighter" })
+  })
+
+  it("should round trip through the importer", () => {
+    const theme = createThemeManager()
+    const { colors } = importTokens(theme.export("dtcg", { format: "oklch" }))
+    expect(Object.keys(colors)).toEqual(["brand.primary", "brand.accent", "button.bg"])
+    expect(new ThemeManager({ colors }).toCSS()).toContain("--button\\.bg: #3366ff;")
+  })
+
+  it("should export Style Dictionary tokens", () => {
+    const tokens = JSON.parse(createThemeManager().export("style-dictionary"))
+    expect(tokens.brand.primary).toEqual({ value: "#3366ff", type: "color", comment: "Brand color" })
+    expect(tokens.button.bg.value).toBe("#3366ff")
+  })
+})
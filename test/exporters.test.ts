@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  Exporter,
+  exportCSS,
+  formatColor,
+  jsExporter,
+  scssExporter,
+  ThemeManager,
+  toCustomProperty,
+  toIdentifier,
+  toStyleVariable,
+} from "../src"
+
+const baseColors = {
+  "button.bg": "#3366ff",
+  "text.fg": "#333333",
+} as const
+
+describe("formatColor", () => {
+  it("should serialize to hex, rgb and hsl", () => {
+    const color = { r: 51, g: 102, b: 255 }
+    expect(formatColor(color, "hex")).toBe("#3366ff")
+    expect(formatColor(color, "rgb")).toBe("rgb(51, 102, 255)")
+    expect(formatColor(color, "hsl")).toBe("hsl(225, 100%, 60%)")
+  })
+
+  it("should only emit alpha for translucent colors", () => {
+    expect(formatColor({ r: 0, g: 0, b: 0, a: 1 }, "rgb")).toBe("rgb(0, 0, 0)")
+    expect(formatColor({ r: 0, g: 0, b: 0, a: 0.5 }, "rgb")).toBe("rgba(0, 0, 0, 0.5)")
+    expect(formatColor({ r: 0, g: 0, b: 0, a: 0.5 }, "hex")).toBe("#00000080")
+  })
+})
+
+describe("exportCSS", () => {
+  it("should add the custom property prefix when missing", () => {
+    expect(toCustomProperty("--button-bg")).toBe("--button-bg")
+    expect(toCustomProperty("button-bg")).toBe("--button-bg")
+    expect(toCustomProperty("button.bg")).toBe("--button\\.bg")
+  })
+
+  it("should render a :root block by default", () => {
+    const css = exportCSS({ "button-bg": "#3366ff" })
+    expect(css).toBe(":root {\n  --button-bg: #3366ff;\n}\n")
+  })
+
+  it("should nest the rule inside @supports and @media", () => {
+    const css = exportCSS(
+      { "--button-bg": "#3366ff" },
+      { selector: ".brand-x", media: "@media (prefers-color-scheme: dark)", supports: "(color: oklch(0 0 0))" },
+    )
+    expect(css).toBe(
+      [
+        "@supports (color: oklch(0 0 0)) {",
+        "  @media (prefers-color-scheme: dark) {",
+        "    .brand-x {",
+        "      --button-bg: #3366ff;",
+        "    }",
+        "  }",
+        "}",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("ThemeManager.toCSS", () => {
+  it("should export variants in the requested format", () => {
+    const theme = new ThemeManager({ colors: baseColors, output: { prefix: "--", divider: "-" } })
+    const css = theme.toCSS({ selector: '[data-theme="dark"]', format: "rgb" })
+    expect(css.startsWith('[data-theme="dark"] {')).toBe(true)
+    expect(css).toContain("--button-bg: rgb(51, 102, 255);")
+    expect(css).toContain("--button-bg-lighter: rgb(")
+    expect(css).toContain("--text-fg-darker: rgb(")
+  })
+
+  it("should ignore the configured serializer", () => {
+    const theme = new ThemeManager({ colors: baseColors, output: { serializer: (c) => c.rgb } })
+    const css = theme.toCSS({ colors: { "button.bg": "#000000" } })
+    expect(css).toContain("--button\\.bg: #000000;")
+    expect(css).toContain("--text\\.fg: #333333;")
+  })
+})
+
+describe("identifier sanitisation", () => {
+  it("should build Sass/Less variable names", () => {
+    expect(toStyleVariable("--button-bg")).toBe("button-bg")
+    expect(toStyleVariable("$button:bg")).toBe("button-bg")
+    expect(toStyleVariable("brand.50")).toBe("brand-50")
+  })
+
+  it("should build camelCase JavaScript identifiers", () => {
+    expect(toIdentifier("button-bg-lighter")).toBe("buttonBgLighter")
+    expect(toIdentifier("--text.fg")).toBe("textFg")
+    expect(toIdentifier("50.brand")).toBe("_50Brand")
+    expect(toIdentifier("button.primaryHover")).toBe("buttonPrimaryHover")
+  })
+})
+
+describe("builtin exporters", () => {
+  const entries = [
+    { key: "--button-bg", token: "button.bg", value: "#3366ff" },
+    { key: "--button-bg-lighter", token: "button.bg", variant: "lighter", value: "#5c85ff" },
+  ]
+
+  it("should render SCSS variables and a map", () => {
+    expect(scssExporter.export(entries)).toBe(
+      [
+        "$button-bg: #3366ff;",
+        "$button-bg-lighter: #5c85ff;",
+        "",
+        "$theme: (",
+        '  "button-bg": $button-bg,',
+        '  "button-bg-lighter": $button-bg-lighter,',
+        ");",
+        "",
+      ].join("\n"),
+    )
+    expect(scssExporter.export(entries, { map: false })).not.toContain("$theme")
+  })
+
+  it("should render ES module constants", () => {
+    expect(jsExporter.export(entries, { collection: "theme" })).toBe(
+      [
+        'export const buttonBg = "#3366ff"',
+        'export const buttonBgLighter = "#5c85ff"',
+        "",
+        "export const theme = { buttonBg, buttonBgLighter }",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("ThemeManager.export", () => {
+  it("should render builtin formats", () => {
+    const theme = new ThemeManager({ colors: baseColors, output: { prefix: "--", divider: "-" } })
+    expect(theme.export("less")).toContain("@button-bg: #3366ff;")
+    expect(theme.export("dts")).toContain('export declare const textFg: "#333333"')
+    expect(theme.export("js", { format: "rgb" })).toContain('export const buttonBg = "rgb(51, 102, 255)"')
+  })
+
+  it("should render registered formats", () => {
+    const envExporter: Exporter<{ separator?: string }> = {
+      extension: "env",
+      export: (entries, options = {}) =>
+        entries
+          .map((e) => `${e.token}${e.variant ? `:${e.variant}` : ""}${options.separator ?? "="}${e.value}`)
+          .join("\n"),
+    }
+    const theme = new ThemeManager({ colors: { "text.fg": "#333333" }, variants: {} })
+    theme.registerExporter("env", envExporter)
+    expect(theme.export("env", { separator: ": " })).toBe("text.fg: #333333")
+  })
+
+  it("should skip colliding names and report them through the logger", () => {
+    const warn = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "button.primary-bg": "#3366ff", "button-primary.bg": "#000000" },
+      variants: {},
+      output: { prefix: "--", divider: "." },
+      logger: { warn, error: vi.fn() },
+    })
+    expect(theme.export("js")).toBe('export const buttonPrimaryBg = "#3366ff"\n')
+    expect(theme.export("scss", { map: false })).toBe("$button-primary-bg: #3366ff;\n")
+    expect(theme.export("less")).toBe("@button-primary-bg: #3366ff;\n")
+    expect(warn).toHaveBeenCalledTimes(3)
+    expect(warn).toHaveBeenCalledWith(
+      "Keys --button.primary-bg and --button-primary.bg are both exported as buttonPrimaryBg. Skipping...",
+    )
+  })
+
+  it("should report unknown formats through the logger", () => {
+    const theme = new ThemeManager({ colors: baseColors, strict: true })
+    expect(() => theme.export("yaml")).toThrow()
+  })
+})
@@ -0,0 +1,67 @@
+import { toHex } from "colorus-js"
+import { describe, expect, it } from "vitest"
+import { ThemeManager } from "../src"
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors: { "button.bg": "#3366ff", "text.fg": "#333333", "link.fg": "{button.bg}" },
+    plugins: { toHex },
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    strict: true,
+  })
+
+describe("ThemeManager.extend", () => {
+  it("should merge colors and variants over the parent", () => {
+    const parent = createThemeManager()
+    const child = parent.extend({
+      colors: { "button.bg": "#e11d48", "card.bg": "#ffffff" },
+      variants: { faded: { scope: ["fg"], fn: (c) => c.lighten(0.3) } },
+    })
+    const schema = child.generateTheme()
+
+    expect(schema["--button-bg"]).toBe("#e11d48")
+    expect(schema["--link-fg"]).toEqual(schema["--button-bg"])
+    expect(schema["--card-bg-lighter"]).toBeDefined()
+    expect(schema["--text-fg-faded"]).toBeDefined()
+    expect(parent.generateTheme()).not.toHaveProperty("--card-bg")
+  })
+
+  it("should not share the schema cache", () => {
+    const parent = createThemeManager()
+    parent.generateTheme()
+    parent.generateTheme({ "button.bg": "#000000" })
+    const child = parent.override({ "text.fg": "#000000" })
+
+    expect(child.generateTheme()["--button-bg"]).toBe("#3366ff")
+    expect(child.generateTheme()["--text-fg"]).toBe("#000000")
+    expect(parent.generateTheme()["--text-fg"]).toBe("#333333")
+  })
+
+  it("should replace output settings and inherit the others", () => {
+    const child = createThemeManager().extend({ output: { prefix: "$", serializer: (c) => c.toHex().toUpperCase() } })
+    expect(child.generateTheme()["$button-bg"]).toBe("#3366FF")
+    expect(() => child.generateTheme({ "card.bg": "#ffffff" } as never)).toThrow(/not in the registry/)
+  })
+
+  it("should find the ancestor declaring each token", () => {
+    const base = createThemeManager()
+    const brand = base.extend({ colors: { "button.bg": "#e11d48" } })
+    const campaign = brand.extend({ colors: { "badge.bg": "#facc15", "text.fg": "#333333" } })
+
+    expect(campaign.origin("button.bg")).toBe(brand)
+    expect(campaign.origin("link.fg")).toBe(base)
+    expect(campaign.origin("text.fg")).toBe(campaign)
+    expect(campaign.origin("badge.bg")).toBe(campaign)
+    expect(brand.origin("badge.bg" as never)).toBeUndefined()
+  })
+
+  it("should declare the tokens updated on a derived theme", () => {
+    const base = createThemeManager()
+    const brand = base.extend({ colors: { "button.bg": "#e11d48" } })
+    expect(brand.origin("text.fg")).toBe(base)
+
+    brand.set("text.fg", "#000000")
+    expect(brand.origin("text.fg")).toBe(brand)
+    expect(base.origin("text.fg")).toBe(base)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { generateHarmony, rgbToOklch, ThemeManager } from "../src"
+
+const base = { r: 51, g: 102, b: 255 }
+
+const hueDistance = (a: number, b: number) => {
+  const distance = Math.abs(a - b) % 360
+  return distance > 180 ? 360 - distance : distance
+}
+
+describe("generateHarmony", () => {
+  it("should rotate the hue in OKLCH", () => {
+    const { h } = rgbToOklch(base)
+    const harmony = generateHarmony(base, ["complementary", "triadic"])
+    expect(harmony.map(({ name }) => name)).toEqual(["complement", "triad-1", "triad-2"])
+
+    const hues = harmony.map(({ color }) => rgbToOklch(color).h)
+    expect(hueDistance(hues[0], h)).toBeCloseTo(180, -1)
+    expect(hueDistance(hues[1], h)).toBeCloseTo(120, -1)
+    expect(hueDistance(hues[2], h)).toBeCloseTo(120, -1)
+  })
+
+  it("should keep the lightness of the base", () => {
+    const { l } = rgbToOklch(base)
+    for (const { color } of generateHarmony(base, ["complementary", "triadic", "split-complementary"])) {
+      expect(rgbToOklch(color).l).toBeCloseTo(l, 2)
+    }
+  })
+
+  it("should apply the angle to analogous and split complementary colors", () => {
+    const { h } = rgbToOklch(base)
+    const [first, second] = generateHarmony(base, "analogous", { angle: 20 })
+    expect(hueDistance(rgbToOklch(first.color).h, h)).toBeCloseTo(20, -1)
+    expect(hueDistance(rgbToOklch(second.color).h, h)).toBeCloseTo(20, -1)
+
+    const split = generateHarmony(base, "split-complementary", { angle: 20 })
+    expect(split.map(({ color }) => Math.round(hueDistance(rgbToOklch(color).h, h) / 10) * 10)).toEqual([160, 160])
+  })
+})
+
+describe("ThemeManager.createHarmony", () => {
+  it("should register the harmonies next to the base token", () => {
+    const theme = new ThemeManager({
+      colors: {
+        ...ThemeManager.createHarmony("brand.accent.primary", "#3366ff", ["complementary", "analogous"]),
+        "button.bg": "{brand.accent.complement}",
+      },
+      variants: { hover: { scope: ["*"], fn: (c) => c.darken(0.1) } },
+      output: { prefix: "--", divider: "-" },
+      strict: true,
+    })
+    const schema = theme.generateTheme()
+    expect(schema["--button-bg"]).toEqual(schema["--brand-accent-complement"])
+    expect(schema).toHaveProperty("--brand-accent-analogous-2-hover")
+    expect(theme.toCSS()).toContain("--brand-accent-primary: #3366ff;")
+  })
+
+  it("should reject invalid seeds", () => {
+    expect(() => ThemeManager.createHarmony("accent.primary", "#zzzzzz", "triadic")).toThrow(
+      /Harmony accent.primary has an invalid seed/,
+    )
+  })
+})
@@ -92,7 +92,8 @@ describe("ThemeManager", () => {
     const schema = theme.generateTheme()
     const json = JSON.stringify({ "button.bg": "#abcdef" })
     const parsed = theme.parseFromJson(json)
-    expect(parsed["--button-bg"]).toBe("#abcdef")
+    expect(parsed.ok).toBe(true)
+    expect(parsed.schema["--button-bg"]).toBe("#abcdef")
     expect(schema["--button-bg"]).toBe(baseColors["button.bg"])
   })
 
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest"
+import type { LintRule } from "../src"
+import { ThemeLintError, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }, strict = false) =>
+  new ThemeManager({
+    colors: {
+      "button.bg": "#ffffff",
+      "button.fg": "#3366ff",
+      "card.bg": "#ffffff",
+      "link.fg": "{button.fg}",
+      "status.error": "#dc2626",
+      "status.danger": "#dc2727",
+      "Brand.Primary": "#e11d48",
+    },
+    variants: { hover: { scope: ["bg"], fn: (c) => c.lighten(0.1) } },
+    logger,
+    strict,
+  })
+
+describe("ThemeManager.lint", () => {
+  it("should report the default rules as warnings", () => {
+    const warn = vi.fn()
+    const report = createThemeManager({ warn, error: vi.fn() }).lint()
+
+    expect(report.passed).toBe(true)
+    expect(report.issues.map(({ rule, tokens }) => [rule, tokens])).toEqual([
+      ["duplicate-value", ["button.bg", "card.bg"]],
+      ["near-duplicate", ["status.error", "status.danger"]],
+      ["missing-partner", ["card.bg"]],
+      ["missing-partner", ["link.fg"]],
+      ["collapsed-variant", ["button.bg"]],
+      ["collapsed-variant", ["card.bg"]],
+    ])
+    expect(warn).toHaveBeenCalledWith(
+      "Tokens button.bg, card.bg have the same color #ffffff, alias them instead. (duplicate-value)",
+    )
+    expect(warn).toHaveBeenCalledWith("Token card.bg has no foreground partner card.fg. (missing-partner)")
+    expect(warn).toHaveBeenCalledWith(
+      "Variant hover of token button.bg is identical to its base color. (collapsed-variant)",
+    )
+  })
+
+  it("should apply severities and rule options", () => {
+    const error = vi.fn()
+    const report = createThemeManager({ warn: vi.fn(), error }).lint({
+      rules: {
+        "duplicate-value": "off",
+        "near-duplicate": "off",
+        "missing-partner": "off",
+        "collapsed-variant": "off",
+        "naming-pattern": ["error", { pattern: /^[a-z]+(\.[a-z-]+)+$/ }],
+        palette: ["warn", { colors: ["#ffffff", "#3366ff", "rgb(220, 38, 38)"], threshold: 1 }],
+      },
+    })
+
+    expect(report.passed).toBe(false)
+    expect(report.issues.map(({ rule, severity, tokens }) => [rule, severity, tokens])).toEqual([
+      ["naming-pattern", "error", ["Brand.Primary"]],
+      ["palette", "warn", ["Brand.Primary"]],
+    ])
+    expect(error).toHaveBeenCalledWith(
+      "Token Brand.Primary does not match the naming pattern /^[a-z]+(\\.[a-z-]+)+$/. (naming-pattern)",
+    )
+  })
+
+  it("should run custom rules", () => {
+    const noRed: LintRule<{ limit: number }> = ({ entries }, { limit }) =>
+      entries
+        .filter(({ variant, color }) => !variant && color.r > limit && color.g < 50)
+        .map(({ token }) => ({ message: `Token ${token} is red.`, tokens: [token] }))
+    const warn = vi.fn()
+    const report = createThemeManager({ warn, error: vi.fn() }).lint({
+      rules: {
+        "duplicate-value": "off",
+        "near-duplicate": "off",
+        "missing-partner": "off",
+        "collapsed-variant": "off",
+        unknown: "warn",
+      },
+      customRules: { "no-op": () => [] },
+    })
+
+    expect(report.issues).toEqual([])
+    expect(warn).toHaveBeenCalledWith("Lint rule unknown is not registered. Skipping...")
+
+    const configured = createThemeManager().lint({
+      rules: { "no-red": ["error", { limit: 200 }] },
+      customRules: { "no-red": noRed },
+    })
+    expect(configured.issues.filter(({ rule }) => rule === "no-red").map(({ tokens }) => tokens)).toEqual([
+      ["status.error"],
+      ["status.danger"],
+      ["Brand.Primary"],
+    ])
+  })
+
+  it("should only fail on errors in strict mode", () => {
+    const warn = vi.fn()
+    const report = createThemeManager({ warn, error: vi.fn() }, true).lint()
+    expect(report.passed).toBe(true)
+    expect(report.issues).toHaveLength(6)
+    expect(warn).toHaveBeenCalledTimes(6)
+
+    const logger = { warn: vi.fn(), error: vi.fn() }
+    let error: unknown
+    try {
+      createThemeManager(logger, true).lint({
+        rules: { "naming-pattern": ["error", { pattern: /^[a-z]+(\.[a-z-]+)+$/ }] },
+      })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(ThemeLintError)
+    expect((error as ThemeLintError).report.issues).toHaveLength(7)
+    expect((error as ThemeLintError).message).toBe(
+      "[Theme-Manager]: Theme lint failed with 1 error(s).\nToken Brand.Primary does not match the naming pattern /^[a-z]+(\\.[a-z-]+)+$/. (naming-pattern)",
+    )
+    expect(logger.warn).toHaveBeenCalledTimes(6)
+    expect(logger.error).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,80 @@
+import { toHex } from "colorus-js"
+import { describe, expect, it, vi } from "vitest"
+import { ThemeManager } from "../src"
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors: {
+      "button.bg": "#3366ff",
+      "text.fg": "#333333",
+    },
+    modes: {
+      dark: { colorScheme: "dark", colors: { "button.bg": "#1a3d99", "text.fg": "#eeeeee" } },
+      "high-contrast": { extends: "dark", colors: { "text.fg": "#ffffff" } },
+    },
+    plugins: { toHex },
+    variants: {},
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    strict: true,
+  })
+
+describe("ThemeManager modes", () => {
+  it("should generate a typed schema per mode", () => {
+    const theme = createThemeManager()
+    const { base, dark, "high-contrast": highContrast } = theme.generateModes()
+    expect(base["--button-bg"]).toBe("#3366ff")
+    expect(dark["--button-bg"]).toBe("#1a3d99")
+    expect(dark["--text-fg"]).toBe("#eeeeee")
+    // inherits button.bg from dark
+    expect(highContrast["--button-bg"]).toBe("#1a3d99")
+    expect(highContrast["--text-fg"]).toBe("#ffffff")
+  })
+
+  it("should not depend on previously generated schemas", () => {
+    const theme = createThemeManager()
+    theme.generateTheme({ "button.bg": "#000000" })
+    expect(theme.generateMode("base")["--button-bg"]).toBe("#3366ff")
+    expect(theme.generateTheme()["--button-bg"]).toBe("#3366ff")
+  })
+
+  it("should report modes missing tokens", () => {
+    const warn = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "button.bg": "#3366ff", "text.fg": "#333333" },
+      modes: {
+        dark: { extends: false, colors: { "button.bg": "#1a3d99" } },
+        dimmed: { colors: { "button.bg": "#2a4dbb" } },
+      },
+      logger: { warn, error: vi.fn() },
+    })
+    expect(theme.validateModes()).toEqual({ dark: ["text.fg"] })
+    expect(warn).toHaveBeenCalledWith("Mode dark does not define text.fg.")
+  })
+
+  it("should throw on circular inheritance in strict mode", () => {
+    const theme = new ThemeManager({
+      colors: { "button.bg": "#3366ff" },
+      modes: {
+        dark: { extends: "dimmed", colors: {} },
+        dimmed: { extends: "dark", colors: {} },
+      },
+      strict: true,
+    })
+    expect(() => theme.generateMode("dark")).toThrow(/circular/)
+  })
+
+  it("should render mode switching stylesheets", () => {
+    const css = createThemeManager().modesToCSS()
+    expect(css).toContain(":root {\n  --button-bg: #3366ff;")
+    expect(css).toContain('[data-theme="dark"] {\n  --button-bg: #1a3d99;')
+    expect(css).toContain('[data-theme="high-contrast"] {\n  --button-bg: #1a3d99;\n  --text-fg: #ffffff;')
+    expect(css).toContain(
+      "@media (prefers-color-scheme: dark) {\n  :root:not([data-theme]) {\n    --button-bg: #1a3d99;",
+    )
+    expect(css).not.toContain("@media (prefers-color-scheme: light)")
+  })
+
+  it("should export a single mode", () => {
+    expect(createThemeManager().export("less", { mode: "dark" })).toContain("@button-bg: #1a3d99;")
+  })
+})
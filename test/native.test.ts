@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { colorMix, nativeSupports, relativeColor, ThemeManager } from "../src"
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors: { "button.bg": "#3366ff", "button.fg": "#ffffff", "text.fg": "#333333" },
+    variants: {
+      lighter: (c) => c.lighten(0.12),
+      muted: {
+        scope: ["fg"],
+        fn: (c) => c.lighten(0.3),
+        css: relativeColor({ l: "calc(l + 0.3)", c: "calc(c * 0.5)" }),
+      },
+      hover: { scope: ["bg"], layer: { opacity: 0.08 } },
+      faded: { scope: [], include: ["text.fg"], fn: (c) => c.lighten(0.4) },
+    },
+    output: { prefix: "--", divider: "-" },
+  })
+
+describe("CSS variants", () => {
+  it("should build color-mix() and relative colors", () => {
+    expect(colorMix("white", 12)("var(--button-bg)")).toBe("color-mix(in oklch, var(--button-bg), white 12%)")
+    expect(relativeColor({ h: "calc(h + 180)", alpha: 0.5 })("var(--a)")).toBe(
+      "oklch(from var(--a) l c calc(h + 180) / 0.5)",
+    )
+    expect(relativeColor({ r: 0 }, "rgb")("var(--a)")).toBe("rgb(from var(--a) 0 g b)")
+    expect(nativeSupports(["oklch(from var(--a) l c h)", "#ffffff"])).toBe("(color: oklch(from white l c h))")
+    expect(nativeSupports(["#ffffff"])).toBeUndefined()
+  })
+})
+
+describe("Native variant output", () => {
+  it("should guard native variants behind their precomputed colors", () => {
+    const theme = createThemeManager()
+    const precomputed = JSON.parse(theme.export("json"))
+    const css = theme.toCSS({ variants: "native" })
+
+    const [fallback, native] = css.split("\n@supports ")
+    expect(fallback).toContain(`--button-bg-hover: ${precomputed["--button-bg-hover"]};`)
+    expect(native).toBe(
+      [
+        "(color: color-mix(in oklch, white, black)) and (color: oklch(from white l c h)) {",
+        "  :root {",
+        "    --button-bg-hover: color-mix(in srgb, var(--button-bg), var(--button-fg) 8%);",
+        "    --button-fg-muted: oklch(from var(--button-fg) calc(l + 0.3) calc(c * 0.5) h);",
+        "    --text-fg-muted: oklch(from var(--text-fg) calc(l + 0.3) calc(c * 0.5) h);",
+        "  }",
+        "}",
+        "",
+      ].join("\n"),
+    )
+    // Variants without a CSS expression stay precomputed
+    expect(native).not.toContain("--button-bg-lighter")
+    expect(native).not.toContain("--text-fg-faded")
+  })
+
+  it("should inline native variants without fallbacks", () => {
+    const css = createThemeManager().toCSS({ variants: "native", fallbacks: false, supports: "(display: grid)" })
+    expect(css).toContain("--button-bg-hover: color-mix(in srgb, var(--button-bg), var(--button-fg) 8%);")
+    expect(css.match(/@supports/g)).toHaveLength(1)
+    expect(css).toMatch(/--text-fg-faded: #[0-9a-f]{6};/)
+  })
+
+  it("should keep the built-in variants and their keys", () => {
+    const theme = new ThemeManager({ colors: { "card.bg": "#ffffff" }, output: { prefix: "--", divider: "-" } })
+    expect(theme.modesToCSS({ variants: "native", fallbacks: false })).toContain(
+      "--card-bg-darker: color-mix(in oklch, var(--card-bg), black 12%);",
+    )
+    expect(Object.keys(theme.generateTheme())).toEqual(["--card-bg", "--card-bg-lighter", "--card-bg-darker"])
+  })
+})
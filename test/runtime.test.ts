@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { themeBootstrapScript, ThemeManager, ThemeRuntime, ThemeStorage } from "../src"
+
+const themes = {
+  light: { "--button-bg": "#3366ff", "--text-fg": "#333333" },
+  dark: { "--button-bg": "#1a3d99", "--text-fg": "#eeeeee", "--shadow": "#000000" },
+}
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const values = new Map(Object.entries(initial))
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => void values.set(key, value),
+    values,
+  } satisfies ThemeStorage & { values: Map<string, string> }
+}
+
+const createMedia = (dark: boolean) => {
+  const listeners = new Set<() => void>()
+  const media = {
+    matches: dark,
+    addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) => listeners.delete(listener),
+    toggle: (matches: boolean) => {
+      media.matches = matches
+      listeners.forEach((listener) => listener())
+    },
+  }
+  return { media, window: { matchMedia: () => media as unknown as MediaQueryList } }
+}
+
+const property = (name: string) => document.documentElement.style.getPropertyValue(name)
+
+afterEach(() => {
+  document.documentElement.removeAttribute("style")
+  document.documentElement.removeAttribute("data-theme")
+})
+
+describe("ThemeRuntime", () => {
+  it("should apply, switch and persist themes", () => {
+    const storage = createStorage()
+    const runtime = new ThemeRuntime({ themes, storage, window: createMedia(false).window })
+    expect(runtime.theme).toBe("light")
+    expect(property("--button-bg")).toBe("#3366ff")
+    expect(document.documentElement.getAttribute("data-theme")).toBe("light")
+
+    runtime.select("dark")
+    expect(property("--button-bg")).toBe("#1a3d99")
+    expect(property("--shadow")).toBe("#000000")
+    expect(storage.values.get("themix-theme")).toBe("dark")
+
+    runtime.select("light")
+    expect(property("--shadow")).toBe("")
+    expect(() => runtime.select("sepia" as "light")).toThrow(/Theme sepia is not registered/)
+  })
+
+  it("should restore the persisted theme", () => {
+    const storage = createStorage({ "themix-theme": "dark" })
+    expect(new ThemeRuntime({ themes, storage }).theme).toBe("dark")
+    expect(new ThemeRuntime({ themes, storage: createStorage({ "themix-theme": "sepia" }) }).theme).toBe("light")
+  })
+
+  it("should apply themes when the storage is unavailable", () => {
+    const storage: ThemeStorage = {
+      getItem: () => {
+        throw new DOMException("The operation is insecure.", "SecurityError")
+      },
+      setItem: () => {
+        throw new DOMException("The quota has been exceeded.", "QuotaExceededError")
+      },
+    }
+    const runtime = new ThemeRuntime({ themes, storage })
+    expect(runtime.theme).toBe("light")
+
+    runtime.select("dark")
+    expect(runtime.theme).toBe("dark")
+    expect(property("--button-bg")).toBe("#1a3d99")
+  })
+
+  it("should reject an empty theme map", () => {
+    expect(() => new ThemeRuntime({ themes: {} })).toThrow(/needs at least one theme/)
+  })
+
+  it("should follow the system color scheme and emit changes", () => {
+    const { media, window } = createMedia(false)
+    const runtime = new ThemeRuntime({
+      themes,
+      system: { light: "light", dark: "dark" },
+      colorSchemes: { dark: "dark" },
+      storage: false,
+      window,
+    })
+    const listener = vi.fn()
+    const event = vi.fn()
+    runtime.subscribe(listener)
+    document.documentElement.addEventListener("themechange", (e) => event((e as CustomEvent).detail))
+    expect(runtime.selected).toBe("system")
+
+    media.toggle(true)
+    expect(runtime.theme).toBe("dark")
+    expect(document.documentElement.style.colorScheme).toBe("dark")
+    expect(listener).toHaveBeenCalledWith({ selected: "system", theme: "dark", previous: "light" })
+    expect(event).toHaveBeenCalledWith({ selected: "system", theme: "dark", previous: "light" })
+
+    runtime.select("light")
+    media.toggle(false)
+    media.toggle(true)
+    expect(runtime.theme).toBe("light")
+
+    runtime.destroy()
+    runtime.select("system")
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("themeBootstrapScript", () => {
+  it("should apply the persisted or system theme", () => {
+    const script = themeBootstrapScript({ themes, system: { light: "light", dark: "dark" } })
+    vi.stubGlobal("matchMedia", () => ({ matches: true }))
+    new Function(script)()
+    expect(property("--button-bg")).toBe("#1a3d99")
+    expect(document.documentElement.getAttribute("data-theme")).toBe("dark")
+
+    localStorage.setItem("themix-theme", "light")
+    new Function(script)()
+    expect(property("--button-bg")).toBe("#3366ff")
+    localStorage.clear()
+    vi.unstubAllGlobals()
+  })
+
+  it("should not allow closing the script tag", () => {
+    const script = themeBootstrapScript({ themes: { light: { "--x": "</script><script>alert(1)" } } })
+    expect(script).not.toContain("</script>")
+  })
+})
+
+describe("ThemeManager.createRuntime", () => {
+  it("should switch between the modes of the theme", () => {
+    const theme = new ThemeManager({
+      colors: { "button.bg": "#3366ff" },
+      variants: {},
+      modes: { dark: { colorScheme: "dark", colors: { "button.bg": "#1a3d99" } } },
+      output: { prefix: "--", divider: "-" },
+    })
+    const runtime = theme.createRuntime({ storage: false, window: createMedia(true).window })
+    expect(runtime.selected).toBe("system")
+    expect(property("--button-bg")).toBe("#1a3d99")
+
+    runtime.select("base")
+    expect(property("--button-bg")).toBe("#3366ff")
+    expect(theme.bootstrapScript()).toContain('"system":{"light":"base","dark":"dark"}')
+  })
+})
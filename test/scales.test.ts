@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { generateScale, rgbToOklch, ThemeManager } from "../src"
+
+const seed = { r: 51, g: 102, b: 255 }
+
+describe("generateScale", () => {
+  it("should generate Tailwind steps from light to dark", () => {
+    const scale = generateScale(seed)
+    expect(scale.map(({ step }) => step)).toEqual([50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950])
+
+    const lightness = scale.map(({ color }) => rgbToOklch(color).l)
+    expect(lightness[0]).toBeCloseTo(0.97, 2)
+    expect(lightness[10]).toBeCloseTo(0.28, 2)
+    expect(lightness).toEqual([...lightness].sort((a, b) => b - a))
+  })
+
+  it("should keep the seed hue and fade chroma at the extremes", () => {
+    const scale = generateScale(seed).map(({ color }) => rgbToOklch(color))
+    for (const { h } of scale.slice(1, -1)) {
+      expect(h).toBeCloseTo(rgbToOklch(seed).h, -1)
+    }
+    expect(scale[0].c).toBeLessThan(scale[5].c)
+    expect(generateScale(seed, { falloff: 1, steps: [0, 100], lightness: [1, 0] })).toEqual([
+      { step: 0, color: { r: 255, g: 255, b: 255 } },
+      { step: 100, color: { r: 0, g: 0, b: 0 } },
+    ])
+  })
+
+  it("should generate Material tones", () => {
+    const scale = generateScale(seed, { steps: "material" })
+    expect(scale[0]).toEqual({ step: 0, color: { r: 0, g: 0, b: 0 } })
+    expect(scale[scale.length - 1]).toEqual({ step: 100, color: { r: 255, g: 255, b: 255 } })
+  })
+
+  it("should apply the lightness curve", () => {
+    const linear = generateScale(seed, { steps: [0, 50, 100] })
+    const eased = generateScale(seed, { steps: [0, 50, 100], curve: (t) => t ** 2 })
+    expect(rgbToOklch(eased[1].color).l).toBeGreaterThan(rgbToOklch(linear[1].color).l)
+  })
+})
+
+describe("ThemeManager.createScale", () => {
+  it("should register the steps as ordinary tokens", () => {
+    const theme = new ThemeManager({
+      colors: {
+        ...ThemeManager.createScale("brand", "#3366ff", { steps: [100, 500, 900] }),
+        "button.bg": "{brand.500}",
+      },
+      variants: { hover: { scope: ["*"], fn: (c) => c.darken(0.1) } },
+      output: { prefix: "--", divider: "-" },
+      strict: true,
+    })
+    const schema = theme.generateTheme()
+    expect(schema["--button-bg"]).toEqual(schema["--brand-500"])
+    expect(schema).toHaveProperty("--brand-100-hover")
+    expect(theme.toCSS()).toMatch(/--brand-900: #[0-9a-f]{6};/)
+  })
+
+  it("should reject invalid seeds", () => {
+    expect(() => ThemeManager.createScale("brand", "#zzzzzz")).toThrow(/Scale brand has an invalid seed/)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest"
+import type { ThemeSnapshot } from "../src"
+import { hashSnapshot, migrateSnapshot, snapshotVersion, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }) =>
+  new ThemeManager({
+    colors: { "button.bg": "#3366ff", "button.fg": "#ffffff", "link.fg": "{button.bg}", "card.bg": "#fafafa" },
+    scope: ["bg", "fg"],
+    skipVariants: ["card.bg"],
+    modes: { dark: { colorScheme: "dark", colors: { "button.bg": "#1e3a8a" } } },
+    output: { prefix: "--", divider: "-" },
+    logger,
+  }).extend({
+    variants: {
+      hover: { scope: ["bg"], layer: { opacity: 0.08 } },
+      muted: { scope: [], include: ["link.fg"], fn: (c) => c.darken(0.2) },
+    },
+  })
+
+describe("ThemeManager.toJSON", () => {
+  it("should serialize the data options", () => {
+    const snapshot = createThemeManager().toJSON()
+    expect(snapshot).toEqual({
+      version: snapshotVersion,
+      hash: expect.stringMatching(/^[0-9a-f]{16}$/),
+      colors: { "button.bg": "#3366ff", "button.fg": "#ffffff", "link.fg": "{button.bg}", "card.bg": "#fafafa" },
+      output: { prefix: "--", divider: "-" },
+      scope: ["bg", "fg"],
+      variants: {
+        lighter: { builtin: "lighter" },
+        darker: { builtin: "darker" },
+        hover: { scope: ["bg"], layer: { opacity: 0.08 } },
+        muted: { scope: [], include: ["link.fg"] },
+      },
+      skipVariants: ["card.bg"],
+      modes: { dark: { colorScheme: "dark", colors: { "button.bg": "#1e3a8a" } } },
+    })
+    expect(JSON.parse(JSON.stringify(createThemeManager()))).toEqual(snapshot)
+    expect(new ThemeManager({ colors: { "button.bg": "#3366ff" } }).toJSON()).not.toHaveProperty("variants")
+  })
+
+  it("should hash the content only", () => {
+    const theme = createThemeManager()
+    const { hash } = theme.toJSON()
+    expect(hashSnapshot({ ...theme.toJSON(), version: 0 })).toBe(hash)
+    expect(createThemeManager().toJSON().hash).toBe(hash)
+
+    theme.set("button.bg", "#e11d48")
+    expect(theme.toJSON().hash).not.toBe(hash)
+    expect(hashSnapshot({ b: 1, a: [1, { d: 2, c: 3 }] })).toBe(hashSnapshot({ a: [1, { c: 3, d: 2 }], b: 1 }))
+  })
+})
+
+describe("ThemeManager.fromSnapshot", () => {
+  it("should round-trip the theme", () => {
+    const theme = createThemeManager()
+    const warn = vi.fn()
+    const restored = ThemeManager.fromSnapshot(JSON.parse(JSON.stringify(theme)) as ThemeSnapshot, {
+      variants: { muted: (c) => c.darken(0.2) },
+      logger: { warn, error: vi.fn() },
+    })
+
+    expect(restored.generateTheme()).toEqual(theme.generateTheme())
+    expect(restored.modesToCSS()).toBe(theme.modesToCSS())
+    expect(restored.toJSON()).toEqual(theme.toJSON())
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it("should skip transformations that are not supplied", () => {
+    const warn = vi.fn()
+    const restored = ThemeManager.fromSnapshot(createThemeManager().toJSON(), { logger: { warn, error: vi.fn() } })
+    expect(restored.generateTheme()).not.toHaveProperty("--link-fg-muted")
+    expect(warn).toHaveBeenCalledWith("Variant muted has no transformation. Skipping...")
+  })
+
+  it("should keep the token types of the snapshot", () => {
+    const restored = ThemeManager.fromSnapshot(createThemeManager().toJSON(), {
+      variants: { muted: (c) => c.darken(0.2) },
+    })
+    expect(restored.origin("button.bg")).toBe(restored)
+    // @ts-expect-error Unknown tokens fail at compile time
+    expect(restored.origin("badge.bg")).toBeUndefined()
+    expect(restored.vars["link.fg"]).toBe("var(--link-fg, #3366ff)")
+  })
+
+  it("should report snapshots edited after being taken", () => {
+    const warn = vi.fn()
+    const snapshot = createThemeManager().toJSON()
+    ThemeManager.fromSnapshot(
+      { ...snapshot, colors: { ...snapshot.colors, "button.bg": "#000000" } },
+      { variants: { muted: (c) => c }, logger: { warn, error: vi.fn() } },
+    )
+    expect(warn).toHaveBeenCalledWith(
+      `Snapshot hash ${snapshot.hash} does not match its content, outputs cached under it are stale.`,
+    )
+  })
+
+  it("should migrate older snapshots", () => {
+    const legacy = { version: 0, colors: { "button.bg": "#3366ff" }, prefix: "--" }
+    const restored = ThemeManager.fromSnapshot(legacy, {
+      migrations: { 0: ({ prefix, ...snapshot }) => ({ ...snapshot, output: { prefix, divider: "-" } }) },
+    })
+    expect(Object.keys(restored.generateTheme())).toEqual(["--button-bg", "--button-bg-lighter", "--button-bg-darker"])
+
+    expect(() => ThemeManager.fromSnapshot(legacy)).toThrow(
+      "[Theme-Manager]: Snapshot version 0 has no migration to version 1.",
+    )
+    expect(() => migrateSnapshot({ ...legacy, version: snapshotVersion + 1 })).toThrow(
+      `[Theme-Manager]: Snapshot version ${snapshotVersion + 1} is newer than the supported version ${snapshotVersion}.`,
+    )
+    expect(() => migrateSnapshot({ colors: {} })).toThrow("[Theme-Manager]: Snapshot has no version.")
+  })
+})
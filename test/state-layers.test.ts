@@ -0,0 +1,95 @@
+import { toHex } from "colorus-js"
+import { describe, expect, it, vi } from "vitest"
+import { compositeOver, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }) =>
+  new ThemeManager({
+    colors: {
+      "button.bg": "#ffffff",
+      "button.fg": "#000000",
+      "card.bg": "rgba(255, 255, 255, 0.5)",
+      "card.fg": "#000000",
+      "page.bg": "#fafafa",
+      "focus.ring": "#3366ff",
+    },
+    plugins: { toHex },
+    variants: {
+      hover: { scope: ["bg"], layer: { opacity: 0.08 } },
+      focus: { scope: [], include: ["button.bg"], layer: { color: "{focus.ring}", opacity: 0.12 } },
+      disabled: { scope: [], include: ["button.bg"], layer: { color: "#000000", opacity: 0.38, flatten: false } },
+    },
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    logger,
+  })
+
+describe("compositeOver", () => {
+  it("should composite translucent colors", () => {
+    expect(compositeOver({ r: 0, g: 0, b: 0, a: 0.5 }, { r: 255, g: 255, b: 255 })).toEqual({
+      r: 127.5,
+      g: 127.5,
+      b: 127.5,
+    })
+    expect(compositeOver({ r: 0, g: 0, b: 0, a: 0.5 }, { r: 255, g: 255, b: 255, a: 0 })).toEqual({
+      r: 0,
+      g: 0,
+      b: 0,
+      a: 0.5,
+    })
+    expect(compositeOver({ r: 0, g: 0, b: 0, a: 0 }, { r: 255, g: 255, b: 255, a: 0 })).toEqual({
+      r: 0,
+      g: 0,
+      b: 0,
+      a: 0,
+    })
+  })
+})
+
+describe("State layers", () => {
+  it("should flatten the paired foreground over the token", () => {
+    const schema = createThemeManager().generateTheme()
+    expect(schema["--button-bg-hover"]).toBe("#ebebeb")
+    expect(schema["--button-bg-focus"]).toBe("#e7edff")
+    // @ts-expect-error Layers only apply to their targets
+    expect(schema["--focus-ring-hover"]).toBeUndefined()
+  })
+
+  it("should output translucent layers", () => {
+    const theme = createThemeManager()
+    expect(JSON.parse(theme.export("json", { format: "rgb" }))["--button-bg-disabled"]).toBe("rgba(0, 0, 0, 0.38)")
+  })
+
+  it("should recompute layers when their color changes", () => {
+    const theme = createThemeManager()
+    theme.generateTheme()
+    const changes = theme.set("focus.ring", "#000000")
+    expect(changes.map(({ key }) => key)).toEqual(["--button-bg-focus", "--focus-ring"])
+    expect(theme.generateTheme()["--button-bg-focus"]).toBe("#e0e0e0")
+  })
+
+  it("should keep the alpha of translucent tokens", () => {
+    const theme = createThemeManager()
+    expect(JSON.parse(theme.export("json", { format: "rgb" }))["--card-bg-hover"]).toMatch(
+      /^rgba\(\d+, \d+, \d+, 0\.54\)$/,
+    )
+  })
+
+  it("should skip layers without a color", () => {
+    const warn = vi.fn()
+    const schema = createThemeManager({ warn, error: vi.fn() }).generateTheme()
+    expect(schema).not.toHaveProperty("--page-bg-hover")
+    expect(warn).toHaveBeenCalledWith("Variant hover for token page.bg has no layer color. Skipping...")
+  })
+})
+
+describe("Translucent contrast", () => {
+  it("should composite translucent foregrounds over their background", () => {
+    const theme = new ThemeManager({
+      colors: { "text.fg": "rgba(0, 0, 0, 0.5)", "text.bg": "#ffffff" },
+      variants: {},
+      logger: { warn: vi.fn(), error: vi.fn() },
+    })
+    const [result] = theme.auditContrast().results
+    expect(result.ratio).toBe(3.98)
+    expect(result.passed).toBe(false)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest"
+import { tailwindColors, ThemeManager } from "../src"
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors: {
+      "button.bg": "#3366ff",
+      "text.fg": "#333333",
+      "brand.500": "#3366ff",
+    },
+    variants: {
+      lighter: { scope: ["bg"], fn: (c) => c.lighten(0.1) },
+      darker: { scope: ["bg"], fn: (c) => c.darken(0.1) },
+    },
+    output: { prefix: "--", divider: "-" },
+  })
+
+describe("tailwindColors", () => {
+  it("should load before the other exporters", async () => {
+    vi.resetModules()
+    const { tailwindConfigExporter } = await import("../src/tailwind")
+    const { builtinExporters } = await import("../src/registry")
+    expect(builtinExporters.tailwind).toBe(tailwindConfigExporter)
+  })
+
+  it("should nest tokens and keep namespace colors as DEFAULT", () => {
+    expect(
+      tailwindColors([
+        { key: "--brand", token: "brand", value: "#3366ff" },
+        { key: "--brand-500", token: "brand.500", value: "#3366ff" },
+      ]),
+    ).toEqual({ brand: { DEFAULT: "var(--brand)", 500: "var(--brand-500)" } })
+  })
+
+  it("should keep namespaces registered before their color", () => {
+    expect(
+      tailwindColors([
+        { key: "--a-b-c", token: "a.b.c", value: "#3366ff" },
+        { key: "--a-b", token: "a.b", value: "#333333" },
+      ]),
+    ).toEqual({ a: { b: { DEFAULT: "var(--a-b)", c: "var(--a-b-c)" } } })
+  })
+})
+
+describe("ThemeManager.toTailwindPreset", () => {
+  it("should point nested colors at the custom properties", () => {
+    expect(createThemeManager().toTailwindPreset()).toEqual({
+      theme: {
+        extend: {
+          colors: {
+            button: {
+              bg: {
+                DEFAULT: "var(--button-bg)",
+                lighter: "var(--button-bg-lighter)",
+                darker: "var(--button-bg-darker)",
+              },
+            },
+            text: { fg: "var(--text-fg)" },
+            brand: { 500: "var(--brand-500)" },
+          },
+        },
+      },
+    })
+  })
+
+  it("should add fallback values", () => {
+    const { colors } = createThemeManager().toTailwindPreset({ fallback: true, format: "rgb" }).theme.extend
+    expect(colors.text).toEqual({ fg: "var(--text-fg, rgb(51, 51, 51))" })
+  })
+})
+
+describe("Tailwind exporters", () => {
+  it("should export a configuration file", () => {
+    const config = createThemeManager().export("tailwind", { module: "cjs" })
+    expect(config.startsWith("module.exports = {")).toBe(true)
+    expect(config).toContain('"DEFAULT": "var(--button-bg)"')
+  })
+
+  it("should export a CSS-first @theme block", () => {
+    expect(createThemeManager().export("tailwind-theme")).toBe(
+      [
+        "@theme inline {",
+        "  --color-button-bg: var(--button-bg);",
+        "  --color-button-bg-lighter: var(--button-bg-lighter);",
+        "  --color-button-bg-darker: var(--button-bg-darker);",
+        "  --color-text-fg: var(--text-fg);",
+        "  --color-brand-500: var(--brand-500);",
+        "}",
+        "",
+      ].join("\n"),
+    )
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest"
+import { formatDimension, serializeTokens, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }) =>
+  new ThemeManager({
+    colors: { "text.fg": "#333333", "shadow.color": "#000000" },
+    modes: { dark: { colors: { "shadow.color": "#ffffff" } } },
+    tokens: {
+      spacing: { "space.sm": 8, "space.md": "1rem" },
+      radius: { "radius.md": "6px" },
+      fontFamily: { "font.body": ["Inter", "Helvetica Neue", "sans-serif"] },
+      fontSize: { "font.size.md": 16 },
+      fontWeight: { "font.weight.bold": 700 },
+      shadow: {
+        "shadow.card": [
+          { x: 0, y: 1, blur: 3, color: "{shadow.color}" },
+          { x: 0, y: 0, spread: 1, color: "{text.fg.darker}", inset: true },
+        ],
+      },
+      duration: { "motion.fast": 150 },
+    },
+    units: { dimension: "rem" },
+    output: { prefix: "--", divider: "-" },
+    logger,
+  })
+
+describe("formatDimension", () => {
+  it("should convert between px and rem", () => {
+    expect(formatDimension(24, { dimension: "rem" })).toBe("1.5rem")
+    expect(formatDimension("2rem", { dimension: "px", baseFontSize: 10 })).toBe("20px")
+    expect(formatDimension("2rem")).toBe("2rem")
+    expect(formatDimension(12)).toBe("12px")
+    expect(formatDimension(0, { dimension: "rem" })).toBe("0")
+    expect(formatDimension("2em" as "2rem")).toBeUndefined()
+  })
+})
+
+describe("serializeTokens", () => {
+  it("should skip invalid values and broken references", () => {
+    const warn = vi.fn()
+    const entries = serializeTokens(
+      {
+        spacing: { "space.sm": "large" as "1px" },
+        duration: { "motion.slow": "0.5s" },
+        shadow: { "shadow.card": { x: 0, y: 1, color: "{missing.color}" } },
+      },
+      { resolveColor: () => undefined, logger: { warn, error: vi.fn() } },
+    )
+
+    expect(entries).toEqual([
+      { token: "motion.slow", category: "duration", value: "0.5s", dtcgValue: { value: 0.5, unit: "s" } },
+    ])
+    expect(warn.mock.calls).toEqual([
+      ["Token space.sm is not a length in px or rem. Skipping..."],
+      ["Token shadow.card references unknown color missing.color. Skipping..."],
+    ])
+  })
+
+  it("should use custom serializers", () => {
+    const entries = serializeTokens(
+      { duration: { "motion.fast": 150 } },
+      {
+        serializers: { duration: (value) => `${Number(value) / 1000}s` },
+        resolveColor: () => undefined,
+        logger: console,
+      },
+    )
+    expect(entries[0].value).toBe("0.15s")
+  })
+})
+
+describe("ThemeManager tokens", () => {
+  it("should generate every category with the configured units", () => {
+    const theme = createThemeManager()
+    const darker = JSON.parse(theme.export("json"))["--text-fg-darker"]
+    expect(theme.generateTokens()).toEqual({
+      "--space-sm": "0.5rem",
+      "--space-md": "1rem",
+      "--radius-md": "0.375rem",
+      "--font-body": 'Inter, "Helvetica Neue", sans-serif',
+      "--font-size-md": "1rem",
+      "--font-weight-bold": "700",
+      "--shadow-card": `0 0.0625rem 0.1875rem 0 #000000, inset 0 0 0 0.0625rem ${darker}`,
+      "--motion-fast": "150ms",
+    })
+    expect(theme.generateTokens({ mode: "dark", format: "rgb" })["--shadow-card"]).toContain("rgb(255, 255, 255)")
+  })
+
+  it("should export tokens along with the colors", () => {
+    const theme = createThemeManager()
+    const css = theme.toCSS()
+    expect(css).toContain("--text-fg: #333333;")
+    expect(css).toContain("--space-sm: 0.5rem;")
+    expect(JSON.parse(theme.export("style-dictionary")).space.sm).toEqual({ value: "0.5rem", type: "dimension" })
+    expect(theme.toTailwindPreset().theme.extend.colors).not.toHaveProperty("space")
+  })
+
+  it("should export the DTCG values of each type", () => {
+    const theme = createThemeManager()
+    const darker = JSON.parse(theme.export("json"))["--text-fg-darker"]
+    const tokens = JSON.parse(theme.export("dtcg"))
+    expect(tokens.space.sm).toEqual({ $value: { value: 0.5, unit: "rem" }, $type: "dimension" })
+    expect(tokens.font.body).toEqual({ $value: ["Inter", "Helvetica Neue", "sans-serif"], $type: "fontFamily" })
+    expect(tokens.font.weight.bold).toEqual({ $value: 700, $type: "fontWeight" })
+    expect(tokens.motion.fast).toEqual({ $value: { value: 150, unit: "ms" }, $type: "duration" })
+    expect(tokens.shadow.card).toEqual({
+      $value: [
+        {
+          color: "#000000",
+          offsetX: { value: 0, unit: "px" },
+          offsetY: { value: 0.0625, unit: "rem" },
+          blur: { value: 0.1875, unit: "rem" },
+          spread: { value: 0, unit: "px" },
+        },
+        {
+          color: darker,
+          offsetX: { value: 0, unit: "px" },
+          offsetY: { value: 0, unit: "px" },
+          blur: { value: 0, unit: "px" },
+          spread: { value: 0.0625, unit: "rem" },
+          inset: true,
+        },
+      ],
+      $type: "shadow",
+    })
+
+    const relative = new ThemeManager({
+      colors: { "text.fg": "#333333" },
+      tokens: { fontWeight: { "font.weight": "bolder" } },
+    })
+    expect(JSON.parse(relative.export("dtcg")).font.weight).toEqual({ $value: "bolder" })
+  })
+
+  it("should skip design tokens named after color tokens", () => {
+    const warn = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "text.fg": "#333333" },
+      tokens: { spacing: { "text.fg": 4 } },
+      logger: { warn, error: vi.fn() },
+    })
+    expect(theme.generateTokens()).toEqual({})
+    expect(warn).toHaveBeenCalledWith("Token text.fg is already a color token. Skipping...")
+  })
+})
@@ -0,0 +1,103 @@
+import { toHex } from "colorus-js"
+import { describe, expect, it, vi } from "vitest"
+import { ThemeManager } from "../src"
+
+const createThemeManager = (faded = vi.fn((c) => c.lighten(0.3))) =>
+  new ThemeManager({
+    colors: {
+      "brand.primary": "#3366ff",
+      "button.bg": "{brand.primary}",
+      "link.fg": "{button.bg}",
+      "text.fg": "#333333",
+    },
+    plugins: { toHex },
+    variants: { faded: { scope: ["*"], fn: faded } },
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    strict: true,
+  })
+
+describe("ThemeManager.set", () => {
+  it("should recompute only the token and its dependents", () => {
+    const faded = vi.fn((c) => c.lighten(0.3))
+    const theme = createThemeManager(faded)
+    theme.generateTheme()
+    theme.generateTheme()
+    expect(faded).toHaveBeenCalledTimes(4)
+
+    faded.mockClear()
+    theme.set("button.bg", "#e11d48")
+    // Only button.bg and its dependent link.fg are recompiled
+    expect(faded).toHaveBeenCalledTimes(2)
+    expect(theme.generateTheme()).toMatchObject({
+      "--brand-primary": "#3366ff",
+      "--button-bg": "#e11d48",
+      "--link-fg": "#e11d48",
+    })
+  })
+
+  it("should only correct and report the contrast of changed tokens", () => {
+    const faded = vi.fn((c) => c.lighten(0.3))
+    const info = vi.fn()
+    const theme = new ThemeManager({
+      colors: { "text.fg": "#999999", "text.bg": "#ffffff", "link.fg": "#aaaaaa", "link.bg": "#ffffff" },
+      variants: { faded: { scope: ["bg"], fn: faded } },
+      output: { prefix: "--", divider: "-" },
+      correctContrast: true,
+      logger: { warn: vi.fn(), error: vi.fn(), info },
+    })
+    theme.generateTheme()
+    expect(info).toHaveBeenCalledTimes(2)
+    expect(faded).toHaveBeenCalledTimes(2)
+
+    info.mockClear()
+    faded.mockClear()
+    theme.generateTheme()
+    theme.set("link.fg", "#bbbbbb")
+    expect(faded).not.toHaveBeenCalled()
+    expect(info).toHaveBeenCalledExactlyOnceWith(
+      expect.stringMatching(
+        /^Adjusted --link-fg from #bbbbbb to #[0-9a-f]{6} for contrast over --link-bg, --link-bg-faded\.$/,
+      ),
+    )
+  })
+
+  it("should notify the changed keys", () => {
+    const theme = createThemeManager()
+    const listener = vi.fn()
+    const unsubscribe = theme.subscribe(listener)
+
+    const changes = theme.setMany({ "brand.primary": "#000000", "text.fg": "#333333" })
+    expect(changes.map(({ key }) => key)).toEqual([
+      "--brand-primary",
+      "--brand-primary-faded",
+      "--button-bg",
+      "--button-bg-faded",
+      "--link-fg",
+      "--link-fg-faded",
+    ])
+    expect(changes[0]).toEqual({ key: "--brand-primary", before: "#3366ff", after: "#000000" })
+    expect(listener).toHaveBeenCalledExactlyOnceWith(changes)
+
+    unsubscribe()
+    theme.set("text.fg", "#000000")
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(theme.set("text.fg", "#000000")).toEqual([])
+  })
+
+  it("should reject unknown tokens", () => {
+    expect(() => createThemeManager().set("card.bg" as "text.fg", "#ffffff")).toThrow(/not in the registry/)
+  })
+
+  it("should keep overrides out of the memoized schema", () => {
+    const theme = createThemeManager()
+    expect(theme.generateTheme({ "brand.primary": "#000000" })["--link-fg"]).toBe("#000000")
+    expect(theme.generateTheme()["--link-fg"]).toBe("#3366ff")
+  })
+
+  it("should update the exports and derived themes", () => {
+    const theme = createThemeManager()
+    theme.set("text.fg", "#000000")
+    expect(theme.toCSS()).toContain("--text-fg: #000000;")
+    expect(theme.extend({}).generateTheme()["--text-fg"]).toBe("#000000")
+  })
+})
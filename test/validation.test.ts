@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { ThemeManager, ThemeValidationError } from "../src"
+
+const colors = {
+  "brand.primary": "#3366ff",
+  "button.bg": "{brand.primary}",
+  "text.fg": "#333333",
+} as const
+
+const createThemeManager = (strict = false) =>
+  new ThemeManager({
+    colors,
+    variants: {},
+    output: { prefix: "--", divider: "-" },
+    logger: { warn: () => {}, error: () => {} },
+    strict,
+  })
+
+describe("ThemeManager.parseFromJson", () => {
+  it("should accept valid themes", () => {
+    const { ok, schema, issues } = createThemeManager().parseFromJson(
+      JSON.stringify({ "text.fg": "oklch(40% 0.05 250)", "button.bg": "{text.fg}" }),
+    )
+    expect(ok).toBe(true)
+    expect(issues).toEqual([])
+    expect(schema["--button-bg"]).toEqual(schema["--text-fg"])
+  })
+
+  it("should report every invalid token", () => {
+    const json = JSON.stringify({
+      "text.fg": "#zzzzzz",
+      "brand.primary": { light: "#ffffff" },
+      "button.bg": 42,
+      "card.bg": "#ffffff",
+    })
+    const { ok, schema, issues } = createThemeManager().parseFromJson(json)
+    expect(ok).toBe(false)
+    expect(issues).toEqual([
+      { path: ["text.fg"], code: "invalid_color", message: 'Token text.fg has an invalid color "#zzzzzz".' },
+      {
+        path: ["brand.primary"],
+        code: "nested_object",
+        message: "Token brand.primary must be a flat color value, not an object.",
+      },
+      { path: ["button.bg"], code: "invalid_type", message: "Token button.bg must be a string, received number." },
+      { path: ["card.bg"], code: "unknown_token", message: "Token card.bg is not in the registry." },
+    ])
+    expect(schema).toEqual(createThemeManager().generateTheme())
+  })
+
+  it("should report broken references", () => {
+    const { issues } = createThemeManager().parseFromJson(
+      JSON.stringify({ "brand.primary": "{button.bg}", "text.fg": "{missing.token}" }),
+    )
+    expect(issues.map(({ code }) => code)).toEqual(["circular_reference", "unknown_reference"])
+  })
+
+  it("should report missing required tokens", () => {
+    const theme = createThemeManager()
+    const json = JSON.stringify({ "text.fg": "#000000" })
+    expect(theme.parseFromJson(json, { required: ["text.fg"] }).ok).toBe(true)
+    expect(theme.parseFromJson(json, { required: true }).issues).toEqual([
+      { path: ["brand.primary"], code: "missing_token", message: "Token brand.primary is required." },
+      { path: ["button.bg"], code: "missing_token", message: "Token button.bg is required." },
+    ])
+  })
+
+  it("should report malformed JSON and roots", () => {
+    const theme = createThemeManager()
+    expect(theme.parseFromJson("{").issues).toMatchObject([{ path: [], code: "invalid_json" }])
+    expect(theme.parseFromJson("[]").issues).toEqual([
+      { path: [], code: "invalid_root", message: "Theme must be an object of tokens, received array." },
+    ])
+  })
+
+  it("should throw a ThemeValidationError in strict mode", () => {
+    const theme = createThemeManager(true)
+    expect(theme.parseFromJson(JSON.stringify({ "text.fg": "#000000" })).ok).toBe(true)
+
+    let error: unknown
+    try {
+      theme.parseFromJson(JSON.stringify({ "text.fg": "#zzzzzz", "card.bg": "#ffffff" }))
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(ThemeValidationError)
+    expect((error as ThemeValidationError).issues).toHaveLength(2)
+    expect((error as ThemeValidationError).message).toMatch(/Theme validation failed with 2 issue\(s\)/)
+  })
+})
@@ -0,0 +1,80 @@
+import { darken, lighten, toHex } from "colorus-js"
+import { describe, expect, it } from "vitest"
+import { ThemeManager } from "../src"
+
+const colors = {
+  "button.bg": "#3366ff",
+  "button.shadow": "#99aabb",
+  "card.bg": "#ffffff",
+  "text.fg": "#333333",
+} as const
+
+const createThemeManager = () =>
+  new ThemeManager({
+    colors,
+    plugins: { darken, lighten, toHex },
+    variants: {
+      darker: { scope: ["bg"], exclude: ["card.bg"], fn: (c) => c.darken(0.2) },
+      faded: { scope: [], include: ["button.shadow"], fn: (c) => c.lighten(0.2) },
+      outline: { scope: ["*"], fn: (c) => c },
+      lighter: (c) => c.lighten(0.1),
+    },
+    skipVariants: ["text.fg"],
+    output: { prefix: "--", divider: "-", serializer: (c) => c.toHex() as string },
+    strict: true,
+  })
+
+describe("ThemeManager variants", () => {
+  it("should apply each variant to its own scope", () => {
+    const schema = createThemeManager().generateTheme()
+    expect(Object.keys(schema).sort()).toEqual([
+      "--button-bg",
+      "--button-bg-darker",
+      "--button-bg-lighter",
+      "--button-bg-outline",
+      "--button-shadow",
+      "--button-shadow-faded",
+      "--button-shadow-outline",
+      "--card-bg",
+      "--card-bg-lighter",
+      "--card-bg-outline",
+      "--text-fg",
+    ])
+    expect(schema["--button-bg-outline"]).toBe("#3366ff")
+  })
+
+  it("should skip variants for a single call", () => {
+    const theme = createThemeManager()
+    expect(Object.keys(theme.generateTheme(undefined, { variants: false }))).toEqual([
+      "--button-bg",
+      "--button-shadow",
+      "--card-bg",
+      "--text-fg",
+    ])
+
+    const schema = theme.generateTheme({ "button.bg": "#000000" }, { variants: ["darker"] })
+    expect(schema["--button-bg"]).toBe("#000000")
+    expect(schema).toHaveProperty("--button-bg-darker")
+    expect(schema).not.toHaveProperty("--button-bg-lighter")
+
+    // restricted calls do not touch the cached schema
+    expect(theme.generateTheme()["--button-bg"]).toBe("#3366ff")
+    expect(theme.generateTheme()).toHaveProperty("--button-bg-lighter")
+  })
+
+  it("should keep bare variants on the manager scope", () => {
+    const theme = new ThemeManager({
+      colors,
+      scope: ["shadow"],
+      plugins: { darken },
+      variants: { muted: (c) => c.darken(0.1) },
+    })
+    expect(Object.keys(theme.generateTheme())).toEqual([
+      "button.bg",
+      "button.shadow",
+      "button.shadow.muted",
+      "card.bg",
+      "text.fg",
+    ])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest"
+import { cssVars, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }) =>
+  new ThemeManager({
+    colors: { "brand.primary": "#e11d48", "button.bg": "#3366ff", "link.fg": "{button.bg}" },
+    variants: { hover: { scope: ["bg"], fn: (c) => c.darken(0.1) } },
+    tokens: { spacing: { "space.md": 16 } },
+    output: { prefix: "--", divider: "-" },
+    logger,
+  })
+
+describe("cssVars", () => {
+  it("should nest the fallback chains", () => {
+    const entries = [
+      { key: "--button-bg", token: "button.bg", value: "#3366ff" },
+      { key: "--brand-primary", token: "brand.primary", value: "#e11d48" },
+    ]
+    expect(cssVars(entries, { chains: { "button.bg": ["{brand.primary}"] } })).toEqual({
+      "button.bg": "var(--button-bg, var(--brand-primary, #3366ff))",
+      "brand.primary": "var(--brand-primary, #e11d48)",
+    })
+    expect(cssVars(entries, { fallback: false, chains: { "button.bg": ["{brand.primary}", "transparent"] } })).toEqual({
+      "button.bg": "var(--button-bg, var(--brand-primary, transparent))",
+      "brand.primary": "var(--brand-primary)",
+    })
+  })
+})
+
+describe("ThemeManager.vars", () => {
+  it("should reference every token, variant and design token", () => {
+    const theme = createThemeManager()
+    const hover = JSON.parse(theme.export("json"))["--button-bg-hover"]
+
+    expect(theme.vars).toEqual({
+      "brand.primary": "var(--brand-primary, #e11d48)",
+      "button.bg": "var(--button-bg, #3366ff)",
+      "button.bg.hover": `var(--button-bg-hover, ${hover})`,
+      "link.fg": "var(--link-fg, #3366ff)",
+      "space.md": "var(--space-md, 16px)",
+    })
+    // @ts-expect-error Unknown tokens fail at compile time
+    expect(theme.vars["button.fg"]).toBeUndefined()
+  })
+
+  it("should rebuild the references after updates only", () => {
+    const theme = createThemeManager()
+    const vars = theme.vars
+    expect(theme.vars).toBe(vars)
+
+    theme.set("button.bg", "#000000")
+    expect(theme.vars).not.toBe(vars)
+    expect(theme.vars["link.fg"]).toBe("var(--link-fg, #000000)")
+  })
+
+  it("should apply fallback chains and formats", () => {
+    const warn = vi.fn()
+    const vars = createThemeManager({ warn, error: vi.fn() }).createVars({
+      format: "rgb",
+      chains: {
+        "link.fg": ["{brand.primary}", "currentColor"],
+        "button.bg": ["{button.fg}" as "{button.bg}", "{brand.primary}"],
+      },
+    })
+
+    expect(vars["link.fg"]).toBe("var(--link-fg, var(--brand-primary, currentColor))")
+    expect(vars["button.bg"]).toBe("var(--button-bg, var(--brand-primary, rgb(51, 102, 255)))")
+    expect(warn).toHaveBeenCalledWith("Token button.bg falls back on unknown token button.fg. Skipping...")
+  })
+
+  it("should generate a standalone module", () => {
+    const module = createThemeManager().export("vars", { name: "themeVars", fallback: false })
+    expect(module).toContain('export const themeVars = {\n  "brand.primary": "var(--brand-primary)",')
+    expect(module).toContain("} as const\n\nexport type ThemeVar = keyof typeof themeVars\n")
+    expect(createThemeManager().getExporter("vars")?.extension).toBe("vars.ts")
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest"
+import { findVisionPairs, simulateDeficiency, ThemeManager } from "../src"
+
+const createThemeManager = (logger = { warn: vi.fn(), error: vi.fn() }, strict = false) =>
+  new ThemeManager({
+    colors: {
+      "status.error": "#dc2626",
+      "status.success": "#16a34a",
+      "status.info": "#2563eb",
+      "text.fg": "#111111",
+      "text.bg": "#ffffff",
+    },
+    variants: { hover: { scope: ["status.error"], fn: (c) => c.darken(0.1) } },
+    output: { prefix: "--", divider: "-" },
+    logger,
+    strict,
+  })
+
+describe("simulateDeficiency", () => {
+  it("should simulate each deficiency", () => {
+    const red = { r: 220, g: 38, b: 38 }
+    expect(simulateDeficiency(red, "deuteranopia")).toEqual({ r: 143, g: 128, b: 27 })
+    expect(simulateDeficiency(red, "achromatopsia")).toEqual({ r: 114, g: 114, b: 114 })
+    expect(simulateDeficiency({ ...red, a: 0.5 }, "protanopia", 0)).toEqual({ ...red, a: 0.5 })
+  })
+})
+
+describe("findVisionPairs", () => {
+  it("should pair the tokens of a namespace, except foregrounds and backgrounds", () => {
+    expect(
+      findVisionPairs(["status.error", "status.success", "text.fg", "text.bg"], [{ fg: "text.fg", bg: "text.bg" }]),
+    ).toEqual([["status.error", "status.success"]])
+  })
+})
+
+describe("ThemeManager.simulateVision", () => {
+  it("should simulate every color and variant", () => {
+    const theme = createThemeManager()
+    const schema = theme.simulateVision("achromatopsia")
+    expect(Object.keys(schema)).toEqual(Object.keys(theme.generateTheme()))
+    for (const { r, g, b } of Object.values(schema)) {
+      expect(r).toBe(g)
+      expect(g).toBe(b)
+    }
+    expect(theme.simulateVision("tritanopia", { severity: 0 })).toEqual(theme.generateTheme())
+  })
+})
+
+describe("ThemeManager.checkVision", () => {
+  it("should report tokens becoming indistinguishable", () => {
+    const warn = vi.fn()
+    const report = createThemeManager({ warn, error: vi.fn() }).checkVision({
+      deficiencies: ["deuteranopia", "tritanopia"],
+    })
+
+    expect(report.passed).toBe(false)
+    expect(report.conflicts).toEqual([
+      expect.objectContaining({ deficiency: "deuteranopia", first: "status.error", second: "status.success" }),
+    ])
+    expect(report.conflicts[0].deltaE).toBeLessThan(10)
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^Colors --status-error and --status-success are indistinguishable with deuteranopia/),
+    )
+  })
+
+  it("should check the declared pairs and thresholds", () => {
+    const theme = createThemeManager()
+    expect(theme.checkVision({ threshold: 5 }).conflicts.map(({ deficiency }) => deficiency)).toEqual(["achromatopsia"])
+    expect(
+      theme.checkVision({ deficiencies: ["achromatopsia"], pairs: [["status.info", "text.bg"]], threshold: 1 }).passed,
+    ).toBe(true)
+  })
+
+  it("should throw in strict mode", () => {
+    expect(() => createThemeManager(undefined, true).checkVision()).toThrow(/indistinguishable with/)
+  })
+})